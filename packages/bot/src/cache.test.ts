@@ -0,0 +1,102 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { cacheMigrations, nodeCache, postgresCache } from './cache.js';
+
+// An in-memory Postgres, shared by the tests since it takes a few seconds to start.
+const client = new PGlite();
+const db = drizzle(client);
+
+beforeAll(async () => {
+  await client.exec('CREATE SCHEMA ramus');
+  for (const migration of cacheMigrations.queries) {
+    const { query } = await migration();
+    await client.exec(query);
+  }
+});
+
+beforeEach(async () => {
+  await db.delete(nodeCache);
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('postgresCache', () => {
+  test('get, set, and clear', async () => {
+    const cache = postgresCache(db);
+    await cache.set('a', 'key1', 'value1');
+    await cache.set('a', 'key2', 'value2');
+    await cache.set('b', 'key1', 'value3');
+
+    expect(await cache.get('a', 'key1')).toEqual('value1');
+    expect(await cache.get('b', 'key1')).toEqual('value3');
+    expect(await cache.get('b', 'key2')).toBeUndefined();
+
+    await cache.set('a', 'key1', 'replaced');
+    expect(await cache.get('a', 'key1')).toEqual('replaced');
+
+    await cache.clear('a');
+    expect(await cache.get('a', 'key1')).toBeUndefined();
+    expect(await cache.get('a', 'key2')).toBeUndefined();
+    expect(await cache.get('b', 'key1')).toEqual('value3');
+
+    await cache.clear();
+    expect(await cache.get('b', 'key1')).toBeUndefined();
+  });
+
+  test('hashes the keys', async () => {
+    const cache = postgresCache(db);
+    const key = 'x'.repeat(10000);
+    await cache.set('a', key, 'value');
+
+    const rows = await db.select().from(nodeCache);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].key).toHaveLength(64);
+    expect(await cache.get('a', key)).toEqual('value');
+  });
+
+  test('ttl', async () => {
+    const cache = postgresCache(db, { ttlMs: 1000 });
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await cache.set('a', 'old', 'value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:00.500Z'));
+    await cache.set('a', 'new', 'value2');
+    expect(await cache.get('a', 'old')).toEqual('value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.200Z'));
+    expect(await cache.get('a', 'old')).toBeUndefined();
+    expect(await cache.get('a', 'new')).toEqual('value2');
+
+    // Setting an entry again restarts its TTL.
+    await cache.set('a', 'old', 'value3');
+    expect(await cache.get('a', 'old')).toEqual('value3');
+  });
+
+  test('prune', async () => {
+    const cache = postgresCache(db, { ttlMs: 1000 });
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await cache.set('a', 'old', 'value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:00.800Z'));
+    await cache.set('a', 'new', 'value2');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.500Z'));
+    await cache.prune?.();
+
+    const rows = await db.select({ value: nodeCache.value }).from(nodeCache);
+    expect(rows).toEqual([{ value: 'value2' }]);
+  });
+
+  test('prune without a ttl keeps everything', async () => {
+    const cache = postgresCache(db);
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await cache.set('a', 'key1', 'value1');
+
+    setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    await cache.prune?.();
+    expect(await cache.get('a', 'key1')).toEqual('value1');
+  });
+});
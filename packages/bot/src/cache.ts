@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { and, eq, gte, lt } from 'drizzle-orm';
+import { primaryKey, text, timestamp } from 'drizzle-orm/pg-core';
+import type { NodeResultCache } from '@ramus/workflow';
+import { Database, ramusSchema } from './db.js';
+import { Migrations } from './migrations.js';
+
+export const nodeCache = ramusSchema.table(
+  'node_cache',
+  {
+    node: text('node').notNull(),
+    // A hash of the cache key, since the full keys can be too long to index.
+    key: text('key').notNull(),
+    value: text('value').notNull(),
+    created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      pk: primaryKey({ columns: [table.node, table.key] }),
+    };
+  }
+);
+
+/** Migrations for the `node_cache` table. Add these to the migrations passed to `initDb` when using `postgresCache`. */
+export const cacheMigrations: Migrations = {
+  key: 'cache',
+  queries: [
+    () => ({
+      name: 'Node result cache',
+      query: `
+        CREATE TABLE IF NOT EXISTS ramus.node_cache (
+          node text NOT NULL,
+          key text NOT NULL,
+          value text NOT NULL,
+          created_at timestamptz NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (node, key)
+        );
+
+        CREATE INDEX IF NOT EXISTS node_cache_created_at_idx ON ramus.node_cache (created_at);
+      `,
+    }),
+  ],
+};
+
+export interface PostgresCacheOptions {
+  /** Entries older than this are treated as missing. If omitted, entries never expire. */
+  ttlMs?: number;
+}
+
+function hashKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/** A `NodeResultCache` that stores data in Postgres, so that it can be shared between processes. */
+export function postgresCache(db: Database, options: PostgresCacheOptions = {}): NodeResultCache {
+  const { ttlMs } = options;
+  // Entries created before this time have expired.
+  const cutoff = () => new Date(ttlMs ? Date.now() - ttlMs : 0);
+
+  return {
+    get: async (node: string, key: string) => {
+      const rows = await db
+        .select({ value: nodeCache.value })
+        .from(nodeCache)
+        .where(
+          and(
+            eq(nodeCache.node, node),
+            eq(nodeCache.key, hashKey(key)),
+            gte(nodeCache.created_at, cutoff())
+          )
+        );
+      return rows[0]?.value;
+    },
+    set: async (node: string, key: string, value: string) => {
+      const created_at = new Date();
+      await db
+        .insert(nodeCache)
+        .values({ node, key: hashKey(key), value, created_at })
+        .onConflictDoUpdate({
+          target: [nodeCache.node, nodeCache.key],
+          set: { value, created_at },
+        });
+    },
+    clear: async (node?: string) => {
+      if (node) {
+        await db.delete(nodeCache).where(eq(nodeCache.node, node));
+      } else {
+        await db.delete(nodeCache);
+      }
+    },
+    prune: async () => {
+      if (ttlMs) {
+        await db.delete(nodeCache).where(lt(nodeCache.created_at, cutoff()));
+      }
+    },
+  };
+}
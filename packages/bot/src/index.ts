@@ -5,9 +5,11 @@ import { Database, conversations, postgresClient } from './db.js';
 import { IncomingEvent, OutgoingChatEvent, OutgoingEvent } from './events.js';
 import { uuidv7 } from 'uuidv7';
 
+export * from './cache.js';
 export * from './db.js';
 export * from './events.js';
 export * from './migrations.js';
+export * from './semaphore.js';
 
 import { migrations } from './migration_fn.js';
 
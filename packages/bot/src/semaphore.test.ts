@@ -0,0 +1,220 @@
+import { afterEach, beforeAll, beforeEach, expect, test } from 'bun:test';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { uuidv7 } from 'uuidv7';
+import { CancelledError, TimeoutError } from '@ramus/workflow';
+import { Database } from './db.js';
+import {
+  PostgresSemaphore,
+  PostgresSemaphoreOptions,
+  semaphoreLeases,
+  semaphoreMigrations,
+} from './semaphore.js';
+
+// An in-memory Postgres, shared by the tests since it takes a few seconds to start.
+const client = new PGlite();
+const db = drizzle(client);
+
+beforeAll(async () => {
+  await client.exec('CREATE SCHEMA ramus');
+  for (const migration of semaphoreMigrations.queries) {
+    const { query } = await migration();
+    await client.exec(query);
+  }
+});
+
+let semaphores: PostgresSemaphore[] = [];
+
+function semaphore(options: Partial<PostgresSemaphoreOptions> = {}) {
+  const s = new PostgresSemaphore({ db, limits: { a: 2 }, pollIntervalMs: 10, ...options });
+  semaphores.push(s);
+  return s;
+}
+
+beforeEach(async () => {
+  await db.delete(semaphoreLeases);
+});
+
+afterEach(async () => {
+  await Promise.all(semaphores.map((s) => s.close()));
+  semaphores = [];
+});
+
+function leaseCount() {
+  return db
+    .select()
+    .from(semaphoreLeases)
+    .then((rows) => rows.length);
+}
+
+test('waits for a free slot', async () => {
+  const s = semaphore();
+  await s.acquire('a');
+  await s.acquire('a');
+  expect(await leaseCount()).toBe(2);
+
+  let acquired = false;
+  const third = s.acquire('a').then(() => {
+    acquired = true;
+  });
+  await Bun.sleep(50);
+  expect(acquired).toBe(false);
+
+  await s.release('a');
+  await third;
+  expect(await leaseCount()).toBe(2);
+});
+
+test('each acquisition takes one slot whatever its weight', async () => {
+  const s = semaphore();
+  await s.acquire('a', { weight: 5 });
+  await s.acquire('a', { weight: 5 });
+  expect(await leaseCount()).toBe(2);
+});
+
+test('keys without a limit are not limited', async () => {
+  const s = semaphore();
+  await s.acquire('b');
+  await s.acquire('b');
+  await s.acquire('b');
+  expect(await leaseCount()).toBe(0);
+});
+
+test('shares slots between instances', async () => {
+  const first = semaphore({ limits: { a: 1 }, holder: 'first' });
+  const second = semaphore({ limits: { a: 1 }, holder: 'second' });
+  await first.acquire('a');
+
+  let acquired = false;
+  const waiting = second.acquire('a').then(() => {
+    acquired = true;
+  });
+  await Bun.sleep(50);
+  expect(acquired).toBe(false);
+
+  await first.release('a');
+  await waiting;
+  const rows = await db.select().from(semaphoreLeases);
+  expect(rows.map((r) => r.holder)).toEqual(['second']);
+});
+
+test('takes over expired leases', async () => {
+  // A lease from a process which stopped without releasing it.
+  await db.insert(semaphoreLeases).values({
+    id: uuidv7(),
+    key: 'a',
+    holder: 'crashed',
+    expires_at: new Date(Date.now() - 1000),
+  });
+
+  const s = semaphore({ limits: { a: 1 } });
+  await s.acquire('a');
+  const rows = await db.select().from(semaphoreLeases);
+  expect(rows.map((r) => r.holder)).toEqual([s.holder]);
+});
+
+test('renews held leases', async () => {
+  const s = semaphore({ leaseMs: 150 });
+  await s.acquire('a');
+  const [before] = await db.select().from(semaphoreLeases);
+
+  await Bun.sleep(200);
+  const [after] = await db.select().from(semaphoreLeases);
+  expect(after.expires_at.getTime()).toBeGreaterThan(before.expires_at.getTime());
+});
+
+test('emits renewError when renewing fails', async () => {
+  const failing: Database = Object.create(db, {
+    update: {
+      value: () => {
+        throw new Error('update failed');
+      },
+    },
+  });
+
+  const s = semaphore({ db: failing, leaseMs: 60 });
+  const errors: string[] = [];
+  s.on('renewError', ({ error }) => errors.push(error.message));
+
+  await s.acquire('a');
+  await Bun.sleep(50);
+  expect(errors).toContain('update failed');
+});
+
+test('run releases the slot when done', async () => {
+  const s = semaphore();
+  await expect(
+    s.run('a', async () => {
+      expect(await leaseCount()).toBe(1);
+      throw new Error('failed');
+    })
+  ).rejects.toThrow('failed');
+  expect(await leaseCount()).toBe(0);
+});
+
+test('higher priority waiters go first', async () => {
+  const s = semaphore({ limits: { a: 1 } });
+  await s.acquire('a');
+
+  const order: string[] = [];
+  const tasks = [
+    s.run('a', async () => order.push('low'), { priority: -1 }),
+    s.run('a', async () => order.push('normal')),
+    s.run('a', async () => order.push('high'), { priority: 10 }),
+  ];
+
+  await s.release('a');
+  await Promise.all(tasks);
+  expect(order).toEqual(['high', 'normal', 'low']);
+});
+
+test('acquire timeout', async () => {
+  const s = semaphore({ limits: { a: 1 } });
+  await s.acquire('a');
+
+  await expect(s.acquire('a', { timeoutMs: 30 })).rejects.toBeInstanceOf(TimeoutError);
+
+  // The timed out waiter doesn't take the slot when it's released.
+  await s.release('a');
+  await Bun.sleep(30);
+  expect(await leaseCount()).toBe(0);
+});
+
+test('acquire with abort signal', async () => {
+  const s = semaphore({ limits: { a: 1 } });
+  await s.acquire('a');
+
+  const controller = new AbortController();
+  const waiting = s.acquire('a', { signal: controller.signal });
+  controller.abort(new CancelledError());
+  await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+
+  await s.release('a');
+  await Bun.sleep(30);
+  expect(await leaseCount()).toBe(0);
+
+  // Already aborted
+  await expect(s.acquire('a', { signal: controller.signal })).rejects.toBeInstanceOf(
+    CancelledError
+  );
+});
+
+test('close rejects waiting acquisitions', async () => {
+  const s = semaphore({ limits: { a: 1 } });
+  await s.acquire('a');
+
+  const waiting = s.acquire('a');
+  await s.close();
+  await expect(waiting).rejects.toThrow('Semaphore is closed');
+  expect(await leaseCount()).toBe(0);
+});
+
+test('close releases all leases', async () => {
+  const s = semaphore();
+  await s.acquire('a');
+  await s.acquire('a');
+  await s.close();
+
+  expect(await leaseCount()).toBe(0);
+  await expect(s.acquire('a')).rejects.toThrow('Semaphore is closed');
+});
@@ -0,0 +1,328 @@
+import { EventEmitter } from 'events';
+import { hostname } from 'os';
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+import { text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import {
+  CancelledError,
+  TimeoutError,
+  type Semaphore,
+  type SemaphoreAcquireOptions,
+} from '@ramus/workflow';
+import { uuidv7 } from 'uuidv7';
+import { Database, ramusSchema } from './db.js';
+import { Migrations } from './migrations.js';
+
+export const semaphoreLeases = ramusSchema.table('semaphore_leases', {
+  id: uuid('id').primaryKey(),
+  key: text('key').notNull(),
+  // Which process holds the lease, for debugging.
+  holder: text('holder').notNull(),
+  expires_at: timestamp('expires_at', { withTimezone: true }).notNull(),
+});
+
+/** Migrations for the `semaphore_leases` table. Add these to the migrations passed to `initDb` when using
+ * `PostgresSemaphore`. */
+export const semaphoreMigrations: Migrations = {
+  key: 'semaphore',
+  queries: [
+    () => ({
+      name: 'Semaphore leases',
+      query: `
+        CREATE TABLE IF NOT EXISTS ramus.semaphore_leases (
+          id uuid PRIMARY KEY,
+          key text NOT NULL,
+          holder text NOT NULL,
+          expires_at timestamptz NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS semaphore_leases_key_idx ON ramus.semaphore_leases (key);
+      `,
+    }),
+  ],
+};
+
+export interface PostgresSemaphoreOptions {
+  db: Database;
+  /** The number of slots for each key. Every process sharing the semaphore should use the same limits. Keys without
+   * a limit are not rate limited. */
+  limits: Record<string, number>;
+  /** How long a lease lasts without being renewed. Leases held by a process that crashed become available again
+   * after this long. Defaults to 30 seconds. */
+  leaseMs?: number;
+  /** How often to check for a free slot while waiting. Defaults to 250ms. */
+  pollIntervalMs?: number;
+  /** A name for this process, stored with its leases. Defaults to the hostname and process ID. */
+  holder?: string;
+}
+
+interface Waiter {
+  priority: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/** A semaphore that shares its slots between all the processes using the same database.
+ *
+ * Each acquired slot is a lease row which this process renews while it holds it. If renewing fails, this emits
+ * `renewError` and tries again on the next heartbeat, but other processes may take the slots once the leases expire.
+ * Call `close` when shutting down to give up any remaining leases. */
+export class PostgresSemaphore
+  extends EventEmitter<{ renewError: [{ error: Error }] }>
+  implements Semaphore
+{
+  db: Database;
+  limits: Map<string, number>;
+  leaseMs: number;
+  pollIntervalMs: number;
+  holder: string;
+
+  /** The IDs of the leases this process holds, by key. */
+  private held = new Map<string, string[]>();
+  /** Acquisitions waiting for a slot, by key. These are sorted by priority, and in arrival order within a priority. */
+  private pending = new Map<string, Waiter[]>();
+  /** The keys which are currently polling for a free slot. */
+  private polling = new Set<string>();
+  private heartbeat: ReturnType<typeof setInterval> | undefined;
+  private closed = false;
+
+  constructor(options: PostgresSemaphoreOptions) {
+    super();
+    this.db = options.db;
+    this.limits = new Map(Object.entries(options.limits));
+    this.leaseMs = options.leaseMs ?? 30000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 250;
+    this.holder = options.holder ?? `${hostname()}:${process.pid}`;
+  }
+
+  /** Update the limit for a semaphore key. This only affects this process, so it should be done everywhere. */
+  setLimit(key: string, limit: number) {
+    this.limits.set(key, limit);
+  }
+
+  /** Acquire a slot in the semaphore. Returns a promise that resolves when the slot is available.
+   * You must call `release` with the same key when done, even if your code throws an error.
+   *
+   * Like `LocalSemaphore`, this is a concurrency limit, so each acquisition takes one slot and `weight` is ignored.
+   * Higher `priority` waiters get a slot first, but this only orders the waiters within this process, and `tenant` is
+   * not used. */
+  async acquire(key: string, options?: SemaphoreAcquireOptions) {
+    if (!this.limits.has(key)) {
+      return;
+    }
+
+    if (this.closed) {
+      throw new Error('Semaphore is closed');
+    }
+
+    if (options?.signal?.aborted) {
+      throw options.signal.reason ?? new CancelledError();
+    }
+
+    const waiters = this.pending.get(key) ?? [];
+    this.pending.set(key, waiters);
+
+    return new Promise<void>((resolve, reject) => {
+      const signal = options?.signal;
+      const timeoutMs = options?.timeoutMs;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const fail = (error: unknown) => {
+        const index = waiters.indexOf(waiter);
+        if (index >= 0) {
+          waiters.splice(index, 1);
+          waiter.reject(error);
+        }
+      };
+
+      const onAbort = () => fail(signal?.reason ?? new CancelledError());
+
+      const waiter: Waiter = {
+        priority: options?.priority ?? 0,
+        resolve: () => {
+          cleanup();
+          resolve();
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      const index = waiters.findIndex((w) => w.priority < waiter.priority);
+      waiters.splice(index === -1 ? waiters.length : index, 0, waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => fail(new TimeoutError(timeoutMs)), timeoutMs);
+      }
+
+      this.poll(key);
+    });
+  }
+
+  /** Take slots for the waiting acquisitions of a key, one at a time, until none are left waiting. */
+  private async poll(key: string) {
+    if (this.polling.has(key)) {
+      return;
+    }
+
+    this.polling.add(key);
+    try {
+      const waiters = this.pending.get(key)!;
+      while (waiters.length && !this.closed) {
+        let id: string | undefined;
+        try {
+          id = await this.tryAcquire(key, this.limits.get(key)!);
+        } catch (e) {
+          for (const waiter of waiters.splice(0)) {
+            waiter.reject(e);
+          }
+          break;
+        }
+
+        if (!id) {
+          await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+          continue;
+        }
+
+        // The waiters may have been cancelled, or the semaphore closed, while creating the lease.
+        const waiter = this.closed ? undefined : waiters.shift();
+        if (!waiter) {
+          // If this fails, the lease expires on its own since it's not being renewed.
+          await this.db
+            .delete(semaphoreLeases)
+            .where(eq(semaphoreLeases.id, id))
+            .catch(() => {});
+          continue;
+        }
+
+        let leases = this.held.get(key);
+        if (!leases) {
+          leases = [];
+          this.held.set(key, leases);
+        }
+
+        leases.push(id);
+        this.startHeartbeat();
+        waiter.resolve();
+      }
+    } finally {
+      this.polling.delete(key);
+    }
+  }
+
+  /** Create a lease if there's a free slot, and return its ID. */
+  private tryAcquire(key: string, limit: number): Promise<string | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Only one process at a time can check and take slots for this key.
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`ramus.semaphore:${key}`}))`);
+
+      // Free up any slots held by processes that stopped renewing them.
+      await tx
+        .delete(semaphoreLeases)
+        .where(and(eq(semaphoreLeases.key, key), lt(semaphoreLeases.expires_at, sql`NOW()`)));
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(semaphoreLeases)
+        .where(eq(semaphoreLeases.key, key));
+      if (count >= limit) {
+        return undefined;
+      }
+
+      const id = uuidv7();
+      await tx.insert(semaphoreLeases).values({
+        id,
+        key,
+        holder: this.holder,
+        expires_at: new Date(Date.now() + this.leaseMs),
+      });
+      return id;
+    });
+  }
+
+  async release(key: string) {
+    const id = this.held.get(key)?.pop();
+    if (!id) {
+      return;
+    }
+
+    if (this.heldCount() === 0) {
+      this.stopHeartbeat();
+    }
+
+    await this.db.delete(semaphoreLeases).where(eq(semaphoreLeases.id, id));
+  }
+
+  /** Run a function as soon as the semaphore key's limit allows it */
+  async run<T>(key: string, f: () => Promise<T>, options?: SemaphoreAcquireOptions): Promise<T> {
+    await this.acquire(key, options);
+    try {
+      return await f();
+    } finally {
+      await this.release(key);
+    }
+  }
+
+  /** Stop renewing leases and release all the slots held by this process. Waiting acquisitions are rejected. */
+  async close() {
+    this.closed = true;
+    this.stopHeartbeat();
+
+    for (const waiters of this.pending.values()) {
+      for (const waiter of waiters.splice(0)) {
+        waiter.reject(new Error('Semaphore is closed'));
+      }
+    }
+
+    const ids = [...this.held.values()].flat();
+    this.held.clear();
+    if (ids.length) {
+      await this.db.delete(semaphoreLeases).where(inArray(semaphoreLeases.id, ids));
+    }
+  }
+
+  private heldCount() {
+    let count = 0;
+    for (const leases of this.held.values()) {
+      count += leases.length;
+    }
+    return count;
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) {
+      return;
+    }
+
+    // Renew well before the leases expire, so that a slow query doesn't lose them.
+    this.heartbeat = setInterval(() => {
+      this.renew().catch((error) => {
+        this.emit('renewError', { error });
+      });
+    }, this.leaseMs / 3);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+
+  private async renew() {
+    const ids = [...this.held.values()].flat();
+    if (!ids.length) {
+      return;
+    }
+
+    await this.db
+      .update(semaphoreLeases)
+      .set({ expires_at: new Date(Date.now() + this.leaseMs) })
+      .where(inArray(semaphoreLeases.id, ids));
+  }
+}
@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import type { Database as BetterSqliteDatabase } from 'better-sqlite3';
+import {
+  KeyValueStore,
+  betterSqliteCache,
+  calculateCacheKey,
+  keyValueCache,
+  memoryCache,
+} from './cache.js';
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('memoryCache', () => {
+  test('get, set, and clear', () => {
+    const cache = memoryCache();
+    cache.set('a', 'key1', 'value1');
+    cache.set('a', 'key2', 'value2');
+    cache.set('b', 'key1', 'value3');
+
+    expect(cache.get('a', 'key1')).toEqual('value1');
+    expect(cache.get('b', 'key1')).toEqual('value3');
+    expect(cache.get('b', 'key2')).toBeUndefined();
+
+    cache.clear('a');
+    expect(cache.get('a', 'key1')).toBeUndefined();
+    expect(cache.get('a', 'key2')).toBeUndefined();
+    expect(cache.get('b', 'key1')).toEqual('value3');
+
+    cache.clear();
+    expect(cache.get('b', 'key1')).toBeUndefined();
+  });
+
+  test('ttl', () => {
+    const cache = memoryCache({ ttlMs: 1000 });
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    cache.set('a', 'old', 'value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:00.500Z'));
+    cache.set('a', 'new', 'value2');
+    expect(cache.get('a', 'old')).toEqual('value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.200Z'));
+    expect(cache.get('a', 'old')).toBeUndefined();
+    expect(cache.get('a', 'new')).toEqual('value2');
+  });
+
+  test('prune', () => {
+    const cache = memoryCache({ ttlMs: 1000 });
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    cache.set('a', 'old', 'value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:00.800Z'));
+    cache.set('a', 'new', 'value2');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.500Z'));
+    cache.prune?.();
+
+    // Go back in time to show that the expired entry was actually removed, rather than just hidden by `get`.
+    setSystemTime(new Date('2024-01-01T00:00:00.900Z'));
+    expect(cache.get('a', 'old')).toBeUndefined();
+    expect(cache.get('a', 'new')).toEqual('value2');
+  });
+
+  test('evicts least recently used entries when over maxSize', () => {
+    const key = (k: string) => JSON.stringify(['a', k]).length;
+    const cache = memoryCache({ maxSize: 3 * (key('k1') + 10) });
+    cache.set('a', 'k1', 'x'.repeat(10));
+    cache.set('a', 'k2', 'x'.repeat(10));
+    cache.set('a', 'k3', 'x'.repeat(10));
+
+    // Use k1 so that k2 becomes the oldest.
+    expect(cache.get('a', 'k1')).toBeDefined();
+
+    cache.set('a', 'k4', 'x'.repeat(10));
+    expect(cache.get('a', 'k2')).toBeUndefined();
+    expect(cache.get('a', 'k1')).toBeDefined();
+    expect(cache.get('a', 'k3')).toBeDefined();
+    expect(cache.get('a', 'k4')).toBeDefined();
+
+    // Replacing an entry with a larger value evicts enough to make room.
+    cache.set('a', 'k3', 'x'.repeat(20));
+    expect(cache.get('a', 'k1')).toBeUndefined();
+    expect(cache.get('a', 'k3')).toEqual('x'.repeat(20));
+    expect(cache.get('a', 'k4')).toBeDefined();
+  });
+
+  test('entries larger than maxSize are not stored', () => {
+    const cache = memoryCache({ maxSize: 10 });
+    cache.set('a', 'k1', 'x'.repeat(20));
+    expect(cache.get('a', 'k1')).toBeUndefined();
+  });
+});
+
+describe('betterSqliteCache', () => {
+  // bun:sqlite stands in for better-sqlite3, as in the run store tests.
+  const sqliteCache = (ttlMs?: number) =>
+    betterSqliteCache(new Database(':memory:') as unknown as BetterSqliteDatabase, { ttlMs });
+
+  test('get, set, and clear', () => {
+    const cache = sqliteCache();
+    cache.set('a', 'key1', 'value1');
+    cache.set('a', 'key2', 'value2');
+    cache.set('b', 'key1', 'value3');
+
+    expect(cache.get('a', 'key1')).toEqual('value1');
+    expect(cache.get('b', 'key1')).toEqual('value3');
+    expect(cache.get('b', 'key2')).toBeUndefined();
+
+    cache.clear('a');
+    expect(cache.get('a', 'key1')).toBeUndefined();
+    expect(cache.get('a', 'key2')).toBeUndefined();
+    expect(cache.get('b', 'key1')).toEqual('value3');
+
+    cache.clear();
+    expect(cache.get('b', 'key1')).toBeUndefined();
+  });
+
+  test('ttl', () => {
+    const cache = sqliteCache(1000);
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    cache.set('a', 'old', 'value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:00.500Z'));
+    cache.set('a', 'new', 'value2');
+    expect(cache.get('a', 'old')).toEqual('value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.200Z'));
+    expect(cache.get('a', 'old')).toBeUndefined();
+    expect(cache.get('a', 'new')).toEqual('value2');
+  });
+
+  test('prune', () => {
+    const cache = sqliteCache(1000);
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    cache.set('a', 'old', 'value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:00.800Z'));
+    cache.set('a', 'new', 'value2');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.500Z'));
+    cache.prune?.();
+
+    // Go back in time to show that the expired row was actually deleted.
+    setSystemTime(new Date('2024-01-01T00:00:00.900Z'));
+    expect(cache.get('a', 'old')).toBeUndefined();
+    expect(cache.get('a', 'new')).toEqual('value2');
+  });
+});
+
+/** A stand-in for a Redis-style store. */
+function mapStore() {
+  const data = new Map<string, { value: string; expiresAt?: number }>();
+  const store: KeyValueStore = {
+    get: async (key) => {
+      const entry = data.get(key);
+      if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+        data.delete(key);
+        return null;
+      }
+      return entry?.value ?? null;
+    },
+    set: async (key, value, options) => {
+      data.set(key, {
+        value,
+        expiresAt: options?.ttlMs ? Date.now() + options.ttlMs : undefined,
+      });
+    },
+    delete: async (keys) => {
+      for (const key of keys) {
+        data.delete(key);
+      }
+    },
+    keys: async (prefix) => [...data.keys()].filter((key) => key.startsWith(prefix)),
+  };
+
+  return { store, data };
+}
+
+describe('keyValueCache', () => {
+  test('get, set, and clear', async () => {
+    const { store, data } = mapStore();
+    data.set('other', { value: 'not from the cache' });
+    const cache = keyValueCache(store);
+
+    await cache.set('a', 'key1', 'value1');
+    await cache.set('a:b', 'key1', 'value2');
+    expect(await cache.get('a', 'key1')).toEqual('value1');
+    expect(await cache.get('a:b', 'key1')).toEqual('value2');
+    expect(await cache.get('a', 'key2')).toBeUndefined();
+
+    // Clearing one node doesn't affect another node whose name starts the same way.
+    await cache.clear('a');
+    expect(await cache.get('a', 'key1')).toBeUndefined();
+    expect(await cache.get('a:b', 'key1')).toEqual('value2');
+
+    await cache.clear();
+    expect(await cache.get('a:b', 'key1')).toBeUndefined();
+    expect(data.has('other')).toBe(true);
+  });
+
+  test('prefix and ttl', async () => {
+    const { store, data } = mapStore();
+    const cache = keyValueCache(store, { prefix: 'test:', ttlMs: 1000 });
+
+    setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await cache.set('a', 'key1', 'value1');
+    expect([...data.keys()]).toEqual(['test:a:key1']);
+
+    setSystemTime(new Date('2024-01-01T00:00:00.500Z'));
+    expect(await cache.get('a', 'key1')).toEqual('value1');
+
+    setSystemTime(new Date('2024-01-01T00:00:01.500Z'));
+    expect(await cache.get('a', 'key1')).toBeUndefined();
+  });
+});
+
+test('calculateCacheKey version', () => {
+  const f = () => 1;
+  const unversioned = calculateCacheKey(f, { a: 1 }, 'root');
+  expect(calculateCacheKey(f, { a: 1 }, 'root')).toEqual(unversioned);
+  expect(calculateCacheKey(f, { a: 1 }, 'root', 1)).not.toEqual(unversioned);
+  expect(calculateCacheKey(f, { a: 1 }, 'root', 1)).not.toEqual(
+    calculateCacheKey(f, { a: 1 }, 'root', 2)
+  );
+});
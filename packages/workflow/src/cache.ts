@@ -6,22 +6,37 @@ export interface NodeResultCache {
   get: (node: string, key: string) => string | undefined | Promise<string | undefined>;
   set: (node: string, key: string, value: string) => void | Promise<void>;
   clear: (node?: string) => void | Promise<void>;
+  /** Remove expired entries. Expired entries are never returned by `get`, but they may still take up space until
+   * this is called. Caches which expire entries on their own can leave this out, so check for it before calling. */
+  prune?: () => void | Promise<void>;
+}
+
+export interface BetterSqliteCacheOptions {
+  /** Entries older than this are treated as missing. If omitted, entries never expire. */
+  ttlMs?: number;
 }
 
 /** A cache implementation that persists data to a SQLite Database. This adds an `ramus_cache` table to the database */
-export function betterSqliteCache(db: Database) {
+export function betterSqliteCache(
+  db: Database,
+  options: BetterSqliteCacheOptions = {}
+): NodeResultCache {
   db.exec(
     'CREATE TABLE IF NOT EXISTS ramus_cache (node TEXT NOT NULL, key TEXT NOT NULL, value TEXT, created_at int, PRIMARY KEY (node, key))'
   );
 
+  const { ttlMs } = options;
+  // Entries created before this time have expired. Without a TTL, this matches everything.
+  const cutoff = () => (ttlMs ? Date.now() - ttlMs : 0);
+
   return {
     get: (node: string, key: string) => {
       const data = db
         .prepare<
           unknown[],
           { value: string }
-        >(`SELECT value FROM ramus_cache WHERE node = ? AND key = ?`)
-        .get(node, key);
+        >(`SELECT value FROM ramus_cache WHERE node = ? AND key = ? AND created_at >= ?`)
+        .get(node, key, cutoff());
       return data?.value;
     },
     set: (node: string, key: string, value: string) => {
@@ -36,33 +51,165 @@ export function betterSqliteCache(db: Database) {
         db.prepare(`DELETE FROM ramus_cache`).run();
       }
     },
+    prune: () => {
+      if (ttlMs) {
+        db.prepare(`DELETE FROM ramus_cache WHERE created_at < ?`).run(cutoff());
+      }
+    },
   };
 }
 
+export interface MemoryCacheOptions {
+  /** Entries older than this are treated as missing. If omitted, entries never expire. */
+  ttlMs?: number;
+  /** The maximum total length of the cached keys and values. When adding an entry would go over this, the least
+   * recently used entries are evicted. If omitted, the cache can grow without limit. */
+  maxSize?: number;
+}
+
+interface MemoryCacheEntry {
+  node: string;
+  value: string;
+  createdAt: number;
+  size: number;
+}
+
 /** A cache implementation that holds the data in memory. */
-export function memoryCache(): NodeResultCache {
-  const cache = new Map<string, Map<string, string>>();
+export function memoryCache(options: MemoryCacheOptions = {}): NodeResultCache {
+  const { ttlMs, maxSize } = options;
+  // Map iteration follows insertion order, so entries are moved to the end when used and evicted from the start.
+  const cache = new Map<string, MemoryCacheEntry>();
+  let totalSize = 0;
+
+  const entryKey = (node: string, key: string) => JSON.stringify([node, key]);
+  const expired = (entry: MemoryCacheEntry) => !!ttlMs && entry.createdAt < Date.now() - ttlMs;
+  const remove = (id: string, entry: MemoryCacheEntry) => {
+    cache.delete(id);
+    totalSize -= entry.size;
+  };
+
   return {
-    get: (node: string, key: string) => cache.get(node)?.get(key),
+    get: (node: string, key: string) => {
+      const id = entryKey(node, key);
+      const entry = cache.get(id);
+      if (!entry) {
+        return undefined;
+      }
+
+      if (expired(entry)) {
+        remove(id, entry);
+        return undefined;
+      }
+
+      // Mark as recently used.
+      cache.delete(id);
+      cache.set(id, entry);
+      return entry.value;
+    },
     set: (node: string, key: string, value: string) => {
-      let nodeCache = cache.get(node);
-      if (!nodeCache) {
-        nodeCache = new Map();
-        cache.set(node, nodeCache);
+      const id = entryKey(node, key);
+      const existing = cache.get(id);
+      if (existing) {
+        remove(id, existing);
+      }
+
+      const size = id.length + value.length;
+      if (maxSize !== undefined && size > maxSize) {
+        // This entry could never fit.
+        return;
       }
 
-      nodeCache.set(key, value);
+      cache.set(id, { node, value, createdAt: Date.now(), size });
+      totalSize += size;
+
+      if (maxSize !== undefined) {
+        for (const [oldId, entry] of cache) {
+          if (totalSize <= maxSize) {
+            break;
+          }
+
+          remove(oldId, entry);
+        }
+      }
     },
     clear: (node?: string) => {
       if (node) {
-        cache.delete(node);
+        for (const [id, entry] of cache) {
+          if (entry.node === node) {
+            remove(id, entry);
+          }
+        }
       } else {
         cache.clear();
+        totalSize = 0;
+      }
+    },
+    prune: () => {
+      for (const [id, entry] of cache) {
+        if (expired(entry)) {
+          remove(id, entry);
+        }
+      }
+    },
+  };
+}
+
+/** A minimal key-value store, such as a Redis client, which can back a `NodeResultCache`. */
+export interface KeyValueStore {
+  get: (key: string) => string | null | undefined | Promise<string | null | undefined>;
+  /** Set a value. When `ttlMs` is set, the store should expire the value after that long. */
+  set: (key: string, value: string, options?: { ttlMs?: number }) => void | Promise<unknown>;
+  delete: (keys: string[]) => void | Promise<unknown>;
+  /** List all the keys that start with `prefix`. */
+  keys: (prefix: string) => string[] | Promise<string[]>;
+}
+
+export interface KeyValueCacheOptions {
+  /** A prefix for all the keys written by this cache. Defaults to `ramus:cache:`. */
+  prefix?: string;
+  /** Passed to the store when setting values. If omitted, entries never expire. */
+  ttlMs?: number;
+}
+
+/** A cache implementation that stores data in a generic key-value store. Expiration is left to the store, so there is
+ * no `prune`. */
+export function keyValueCache(
+  store: KeyValueStore,
+  options: KeyValueCacheOptions = {}
+): NodeResultCache {
+  const prefix = options.prefix ?? 'ramus:cache:';
+  // Encode the node name so that clearing a node can't match another node with the same prefix.
+  const nodePrefix = (node: string) => `${prefix}${encodeURIComponent(node)}:`;
+
+  return {
+    get: async (node: string, key: string) => {
+      const value = await store.get(nodePrefix(node) + key);
+      return value ?? undefined;
+    },
+    set: async (node: string, key: string, value: string) => {
+      await store.set(nodePrefix(node) + key, value, { ttlMs: options.ttlMs });
+    },
+    clear: async (node?: string) => {
+      const keys = await store.keys(node ? nodePrefix(node) : prefix);
+      if (keys.length) {
+        await store.delete(keys);
       }
     },
   };
 }
 
-export function calculateCacheKey(f: Function, data: any, rootInputs: any) {
-  return f.toString() + stringify(data) + stringify(rootInputs);
+/** Calculate the cache key for a node. Changing `version` invalidates the previously cached results even if the
+ * function itself hasn't changed. */
+export function calculateCacheKey(
+  f: Function,
+  data: any,
+  rootInputs: any,
+  version?: string | number
+) {
+  return versionedCacheKey(f.toString() + stringify(data) + stringify(rootInputs), version);
+}
+
+/** Add a version to a cache key, if there is one. */
+export function versionedCacheKey(key: string, version?: string | number) {
+  return version === undefined ? key : `v${version}:${key}`;
 }
@@ -133,3 +133,23 @@ test('two-node cycle', () => {
 test('no nodes', () => {
   expect(() => new CompiledDag({ name: 'test', nodes: {} })).toThrow('DAG has no nodes');
 });
+
+test('map node over a node that is not a parent', () => {
+  const dag: DagConfiguration<{}> = {
+    one: {
+      run: noop,
+    },
+    two: {
+      run: noop,
+    },
+    three: {
+      parents: ['one'],
+      mapOver: 'two',
+      run: noop,
+    },
+  };
+
+  expect(() => analyzeDag(dag)).toThrow(
+    `Node 'three' maps over 'two', which is not one of its parents`
+  );
+});
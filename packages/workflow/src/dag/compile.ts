@@ -1,14 +1,14 @@
-import { AnyInputs, Dag, DagNode } from './types.js';
+import { AnyDagNode, AnyInputs, Dag, DagNodeInput } from './types.js';
 import { DagNodeRunner } from './node_runner.js';
 import type { NodeResultCache } from '../cache.js';
 import { Semaphore } from '../semaphore.js';
 
 /** @internal Analyze some parts of the DAG. This is only exported for testing and isn't useful on its own. */
-export function analyzeDag(dag: Record<string, DagNode<any, any, any, any>>) {
+export function analyzeDag(dag: Record<string, AnyDagNode<any, any, any, any>>) {
   // Start with all nodes potentially being leaf nodes and then exclude them as we go.
   const leafNodes = new Set<string>(Object.keys(dag));
 
-  function step(node: DagNode<object, any, AnyInputs, unknown>, seen: string[]) {
+  function step(node: AnyDagNode<object, any, AnyInputs, unknown>, seen: string[]) {
     for (let parent of node.parents ?? []) {
       leafNodes.delete(parent);
 
@@ -30,6 +30,12 @@ export function analyzeDag(dag: Record<string, DagNode<any, any, any, any>>) {
       rootNodes.push(name);
     }
 
+    if ('mapOver' in node && !node.parents?.includes(node.mapOver)) {
+      throw new Error(
+        `Node '${name}' maps over '${node.mapOver}', which is not one of its parents`
+      );
+    }
+
     step(node, [name]);
   }
 
@@ -39,16 +45,21 @@ export function analyzeDag(dag: Record<string, DagNode<any, any, any, any>>) {
   };
 }
 
-interface NamedDagNode<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs, OUTPUT>
-  extends DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT> {
+type NamedDagNode<
+  CONTEXT extends object,
+  ROOTINPUT,
+  INPUTS extends AnyInputs,
+  OUTPUT,
+> = AnyDagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT> & {
   name: string;
-}
+};
 
 export interface BuildRunnerOptions<CONTEXT extends object, ROOTINPUT> {
   context?: CONTEXT;
   input: ROOTINPUT;
   cache?: NodeResultCache;
   semaphores?: Semaphore[];
+  tenant?: string;
   autorun?: () => boolean;
 }
 
@@ -76,6 +87,7 @@ export class CompiledDag<CONTEXT extends object, ROOTINPUT, OUTPUT> {
     cache,
     autorun,
     semaphores,
+    tenant,
   }: BuildRunnerOptions<CONTEXT, ROOTINPUT>) {
     let nodes = new Map<string, DagNodeRunner<CONTEXT, ROOTINPUT, AnyInputs, unknown>>();
 
@@ -91,6 +103,7 @@ export class CompiledDag<CONTEXT extends object, ROOTINPUT, OUTPUT> {
         cache,
         autorun,
         semaphores,
+        tenant,
       });
       nodes.set(node.name, runner);
     }
@@ -108,7 +121,9 @@ export class CompiledDag<CONTEXT extends object, ROOTINPUT, OUTPUT> {
       config: {
         parents: this.info.leafNodes,
         tolerateParentErrors: true,
-        run: ({ input }) => {
+        tolerateSkippedParents: true,
+        outputSchema: this.config.outputSchema,
+        run: ({ input }: DagNodeInput<CONTEXT, ROOTINPUT, AnyInputs>) => {
           if (input) {
             let keys = Object.keys(input);
             if (keys.length === 1) {
@@ -0,0 +1,97 @@
+import { test, expect } from 'bun:test';
+
+import { dagToDot, dagToMermaid } from './diagram.js';
+import { Dag } from './types.js';
+
+async function noop() {}
+
+const dag: Dag<{}, undefined> = {
+  name: 'test dag',
+  context: () => ({}),
+  nodes: {
+    list: {
+      run: async () => [1, 2],
+    },
+    each: {
+      parents: ['list'],
+      mapOver: 'list',
+      run: noop,
+    },
+    other: {
+      run: noop,
+    },
+    'combine-all': {
+      parents: ['each', 'other'],
+      run: noop,
+    },
+  },
+};
+
+test('mermaid', () => {
+  expect(dagToMermaid(dag)).toEqual(
+    [
+      'flowchart TD',
+      '  n0["list"]',
+      '  n1["each (map over list)"]',
+      '  n2["other"]',
+      '  n3["combine-all"]',
+      '  output([output])',
+      '  n0 -- "each item" --> n1',
+      '  n1 --> n3',
+      '  n2 --> n3',
+      '  n3 --> output',
+    ].join('\n')
+  );
+});
+
+test('dot', () => {
+  expect(dagToDot(dag)).toEqual(
+    [
+      'digraph "test dag" {',
+      '  n0 [label="list", shape=box];',
+      '  n1 [label="each (map over list)", shape=box];',
+      '  n2 [label="other", shape=box];',
+      '  n3 [label="combine-all", shape=box];',
+      '  output [label="output", shape=oval];',
+      '  n0 -> n1 [label="each item"];',
+      '  n1 -> n3;',
+      '  n2 -> n3;',
+      '  n3 -> output;',
+      '}',
+    ].join('\n')
+  );
+});
+
+test('node names that would make the same ID', () => {
+  const clashing: Dag<{}, undefined> = {
+    name: 'clashing',
+    context: () => ({}),
+    nodes: {
+      'a-b': { run: noop },
+      a_b: { parents: ['a-b'], run: noop },
+      __output: { parents: ['a_b'], run: noop },
+    },
+  };
+
+  expect(dagToMermaid(clashing)).toEqual(
+    [
+      'flowchart TD',
+      '  n0["a-b"]',
+      '  n1["a_b"]',
+      '  n2["__output"]',
+      '  output([output])',
+      '  n0 --> n1',
+      '  n1 --> n2',
+      '  n2 --> output',
+    ].join('\n')
+  );
+  expect(dagToDot(clashing)).toContain('  n2 -> output;');
+});
+
+test('invalid DAG', () => {
+  const invalid: Dag<{}, undefined> = {
+    ...dag,
+    nodes: { one: { parents: ['two'], run: noop } },
+  };
+  expect(() => dagToMermaid(invalid)).toThrow(`Node 'one' has unknown parent 'two'`);
+});
@@ -0,0 +1,84 @@
+import { analyzeDag } from './compile.js';
+import type { AnyDagNode, Dag } from './types.js';
+
+/** A short description of what kind of node this is, for diagrams. */
+function nodeLabel(name: string, node: AnyDagNode<any, any, any, any>) {
+  if ('mapOver' in node) {
+    return `${name} (map over ${node.mapOver})`;
+  } else if ('subflow' in node) {
+    const subflow = 'config' in node.subflow ? node.subflow.config : node.subflow;
+    return `${name} (subflow ${subflow.name})`;
+  }
+  return name;
+}
+
+/** Stands in for the DAG's output in the edges, so that it can't be mistaken for a node with the same name. */
+const OUTPUT = Symbol('output');
+
+/** List the edges of the DAG, including from the leaf nodes to the DAG's output. This also checks the DAG for
+ * cycles and unknown parents. */
+function dagEdges(dag: Dag<any, any>) {
+  const { leafNodes } = analyzeDag(dag.nodes);
+  const edges: Array<{ from: string; to: string | typeof OUTPUT; label?: string }> = [];
+  for (let [name, node] of Object.entries(dag.nodes)) {
+    for (let parent of node.parents ?? []) {
+      const mapped = 'mapOver' in node && node.mapOver === parent;
+      edges.push({ from: parent as string, to: name, label: mapped ? 'each item' : undefined });
+    }
+  }
+
+  for (let leaf of leafNodes) {
+    edges.push({ from: leaf, to: OUTPUT });
+  }
+
+  return edges;
+}
+
+/** Give each node an ID based on its position, since node names can contain anything. The names are shown as the
+ * labels instead. */
+function nodeIds(dag: Dag<any, any>) {
+  const ids = new Map<string | typeof OUTPUT, string>(
+    Object.keys(dag.nodes).map((name, i) => [name, `n${i}`])
+  );
+  ids.set(OUTPUT, 'output');
+  return ids;
+}
+
+/** Render a DAG as a Mermaid flowchart. The leaf nodes all lead to an `output` node, since their outputs make up
+ * the output of the DAG. */
+export function dagToMermaid(dag: Dag<any, any>) {
+  const edges = dagEdges(dag);
+  const ids = nodeIds(dag);
+  const lines = ['flowchart TD'];
+  for (let [name, node] of Object.entries(dag.nodes)) {
+    lines.push(`  ${ids.get(name)}[${JSON.stringify(nodeLabel(name, node))}]`);
+  }
+  lines.push(`  output([output])`);
+
+  for (let { from, to, label } of edges) {
+    const arrow = label ? `-- ${JSON.stringify(label)} -->` : '-->';
+    lines.push(`  ${ids.get(from)} ${arrow} ${ids.get(to)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/** Render a DAG as a Graphviz DOT graph. The leaf nodes all lead to an `output` node, since their outputs make up
+ * the output of the DAG. */
+export function dagToDot(dag: Dag<any, any>) {
+  const edges = dagEdges(dag);
+  const ids = nodeIds(dag);
+  const lines = [`digraph ${JSON.stringify(dag.name)} {`];
+  for (let [name, node] of Object.entries(dag.nodes)) {
+    lines.push(`  ${ids.get(name)} [label=${JSON.stringify(nodeLabel(name, node))}, shape=box];`);
+  }
+  lines.push(`  output [label="output", shape=oval];`);
+
+  for (let { from, to, label } of edges) {
+    const attrs = label ? ` [label=${JSON.stringify(label)}]` : '';
+    lines.push(`  ${ids.get(from)} -> ${ids.get(to)}${attrs};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -1,6 +1,9 @@
 import { test, describe, expect } from 'bun:test';
 import { DagNodeRunner } from './node_runner.js';
 import { LocalSemaphore } from '../semaphore.js';
+import { RateLimiter } from '../rate_limiter.js';
+import { memoryCache } from '../cache.js';
+import { TimeoutError, ValidationError } from '../errors.js';
 
 function outputCatcher(runner: DagNodeRunner<any, any, any, any>) {
   let finished = false;
@@ -314,10 +317,823 @@ test('with semaphores', async () => {
   expect(runner.result).toEqual({ type: 'success', output: 2 });
 });
 
+test('semaphore priority', async () => {
+  let semaphore = new LocalSemaphore({ key: 0 });
+  let order: string[] = [];
+  let makeRunner = (name: string, priority?: number) => {
+    let runner = new DagNodeRunner({
+      name,
+      dagName: 'dag',
+      semaphores: [semaphore],
+      tenant: 'tenant',
+      config: {
+        semaphoreKey: 'key',
+        priority,
+        run: () => {
+          order.push(name);
+        },
+      },
+      rootInput: {},
+      context: {},
+    });
+    runner.init([]);
+    return runner;
+  };
+
+  let low = makeRunner('low');
+  let high = makeRunner('high', 5);
+  let runs = [low.run(), high.run()];
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  expect(low.state).toBe('pendingSemaphore');
+  expect(high.state).toBe('pendingSemaphore');
+
+  semaphore.setLimit('key', 1);
+  await Promise.all(runs);
+  expect(order).toEqual(['high', 'low']);
+});
+
+test('cancel while waiting for a semaphore', async () => {
+  let semaphore = new LocalSemaphore({ key: 0 });
+  let ran = false;
+  let runner = new DagNodeRunner({
+    name: 'node',
+    dagName: 'node',
+    semaphores: [semaphore],
+    config: {
+      semaphoreKey: 'key',
+      run: () => {
+        ran = true;
+      },
+    },
+    rootInput: {},
+    context: {},
+  });
+  runner.init([]);
+
+  let runPromise = runner.run();
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  expect(runner.state).toBe('pendingSemaphore');
+
+  runner.cancel();
+  await runPromise;
+  expect(runner.state).toBe('cancelled');
+  expect(semaphore.counts.get('key')?.pending.length).toBe(0);
+
+  semaphore.setLimit('key', 1);
+  expect(ran).toBe(false);
+});
+
+test('semaphore weight', async () => {
+  let limiter = new RateLimiter({ tokens: { limit: 100, windowMs: 60000 } });
+  let runner = new DagNodeRunner({
+    name: 'node',
+    dagName: 'node',
+    semaphores: [limiter],
+    config: {
+      parents: ['parent'],
+      semaphoreKey: 'tokens',
+      semaphoreWeight: ({ input }) => input.parent.length,
+      run: ({ input }) => input.parent.toUpperCase(),
+    },
+    rootInput: {},
+    context: {},
+  });
+  let parent = mockRunner('parent', 'x'.repeat(30));
+  const { promise } = outputCatcher(runner);
+
+  runner.init([parent]);
+  await parent.run();
+
+  expect(await promise).toEqual({ name: 'node', output: 'X'.repeat(30) });
+  expect(limiter.buckets.get('tokens')?.available).toBeCloseTo(70, 0);
+});
+
+describe('condition', () => {
+  test('runs when the condition passes', async () => {
+    let parent = mockRunner('parent', 2);
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        condition: ({ input }) => input.parent > 1,
+        run: ({ input }) => input.parent + 1,
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    expect(await promise).toEqual({ name: 'node', output: 3 });
+    expect(runner.state).toBe('finished');
+  });
+
+  test('skips when the condition fails', async () => {
+    let parent = mockRunner('parent', 0);
+    let ran = false;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        condition: async ({ input }) => input.parent > 1,
+        run: () => {
+          ran = true;
+        },
+      },
+      context: {},
+    });
+
+    let child = new DagNodeRunner({
+      name: 'child',
+      dagName: 'node',
+      rootInput: {},
+      config: { parents: ['node'], run: () => 1 },
+      context: {},
+    });
+
+    let tolerantChild = new DagNodeRunner({
+      name: 'tolerantChild',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['node'],
+        tolerateSkippedParents: true,
+        run: ({ input }) => input.node ?? 'no input',
+      },
+      context: {},
+    });
+
+    const { finished } = outputCatcher(runner);
+    const { promise: tolerantPromise } = outputCatcher(tolerantChild);
+    runner.init([parent]);
+    child.init([runner]);
+    tolerantChild.init([runner]);
+
+    await parent.run();
+
+    expect(ran).toBe(false);
+    expect(runner.state).toBe('skipped');
+    expect(runner.result).toBeUndefined();
+    expect(finished()).toBe(false);
+    expect(await runner.finished).toEqual({ name: 'node', output: undefined });
+
+    expect(child.state).toBe('skipped');
+    expect(await tolerantPromise).toEqual({ name: 'tolerantChild', output: 'no input' });
+  });
+
+  test('condition throws', async () => {
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        condition: () => {
+          throw new Error('condition failed');
+        },
+        run: () => 1,
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    await expect(promise).rejects.toThrow('condition failed');
+    expect(runner.state).toBe('error');
+  });
+});
+
+describe('map nodes', () => {
+  test('runs once per item, in order', async () => {
+    let parent = mockRunner('parent', [3, 1, 2]);
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        mapOver: 'parent',
+        run: async ({ item, index, context }) => {
+          // Finish in a different order than we started.
+          await new Promise((resolve) => setTimeout(resolve, item));
+          return `${index}: ${item * context.value}`;
+        },
+      },
+      context: { value: 10 },
+    });
+
+    let itemStates: string[] = [];
+    runner.on('state', (e) => {
+      if (e.item !== undefined) {
+        itemStates.push(`${e.item}:${e.state}`);
+      }
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    expect(await promise).toEqual({ name: 'node', output: ['0: 30', '1: 10', '2: 20'] });
+    expect(runner.state).toBe('finished');
+    expect(itemStates.filter((s) => s.endsWith('finished'))).toEqual([
+      '1:finished',
+      '2:finished',
+      '0:finished',
+    ]);
+  });
+
+  test('semaphores apply to each item', async () => {
+    let semaphore = new LocalSemaphore({ key: 2 });
+    let current = 0;
+    let maxCurrent = 0;
+
+    let parent = mockRunner('parent', [1, 2, 3, 4, 5, 6]);
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      semaphores: [semaphore],
+      config: {
+        parents: ['parent'],
+        mapOver: 'parent',
+        semaphoreKey: 'key',
+        run: async ({ item }) => {
+          current += 1;
+          maxCurrent = Math.max(current, maxCurrent);
+          await new Promise((resolve) => setTimeout(resolve, 2));
+          current -= 1;
+          return item * 2;
+        },
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    expect(await promise).toEqual({ name: 'node', output: [2, 4, 6, 8, 10, 12] });
+    expect(maxCurrent).toBe(2);
+  });
+
+  test('tolerate item failures', async () => {
+    let parent = mockRunner('parent', [1, 2, 3]);
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        mapOver: 'parent',
+        tolerateItemFailures: true,
+        run: async ({ item }) => {
+          if (item === 2) {
+            throw new Error('item failed');
+          }
+          return item;
+        },
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    expect(await promise).toEqual({ name: 'node', output: [1, undefined, 3] });
+  });
+
+  test('item failure fails the node', async () => {
+    let parent = mockRunner('parent', [1, 2, 3]);
+    let attempts: Record<number, number> = {};
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        mapOver: 'parent',
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        run: async ({ item }) => {
+          attempts[item] = (attempts[item] ?? 0) + 1;
+          if (item === 2) {
+            throw new Error('item failed');
+          }
+          return item;
+        },
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    await expect(promise).rejects.toThrow('item failed');
+    expect(runner.state).toBe('error');
+    // Only the failing item should have been retried.
+    expect(attempts).toEqual({ 1: 1, 2: 2, 3: 1 });
+  });
+
+  test('parent output is not an array', async () => {
+    let parent = mockRunner('parent', 5);
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        mapOver: 'parent',
+        run: async ({ item }) => item,
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    await expect(promise).rejects.toThrow(
+      "Node 'node' maps over 'parent', which did not return an array"
+    );
+  });
+});
+
+describe('schema validation', () => {
+  test('valid input and output', async () => {
+    let parent = mockRunner('parent', { value: 2 });
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            parent: { type: 'object', properties: { value: { type: 'number' } } },
+          },
+        },
+        outputSchema: { type: 'number' },
+        run: ({ input }) => input.parent.value * 2,
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    expect(await promise).toEqual({ name: 'node', output: 4 });
+  });
+
+  test('invalid input fails without running', async () => {
+    let parent = mockRunner('parent', { value: 'abc' });
+    let ran = false;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            parent: { type: 'object', properties: { value: { type: 'number' } } },
+          },
+        },
+        run: () => {
+          ran = true;
+        },
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    const error = await promise.catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.paths).toEqual(['parent.value']);
+    expect(ran).toBe(false);
+    expect(runner.state).toBe('error');
+  });
+
+  test('invalid output is retried', async () => {
+    let attempts = 0;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        outputSchema: { type: 'object', required: ['answer'] },
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        run: () => {
+          attempts += 1;
+          return attempts === 1 ? { wrong: true } : { answer: 42 };
+        },
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    expect(await promise).toEqual({ name: 'node', output: { answer: 42 } });
+    expect(attempts).toBe(2);
+  });
+
+  test('invalid output fails the node', async () => {
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        outputSchema: { type: 'string' },
+        run: () => 5,
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    await expect(promise).rejects.toThrow(
+      'Invalid output of node node: is not of a type(s) string'
+    );
+    expect(runner.state).toBe('error');
+  });
+
+  test('map nodes validate each item', async () => {
+    let parent = mockRunner('parent', [1, 2, 3]);
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      rootInput: {},
+      config: {
+        parents: ['parent'],
+        mapOver: 'parent',
+        outputSchema: { type: 'number', maximum: 4 },
+        run: async ({ item }) => item * 2,
+      },
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([parent]);
+    await parent.run();
+
+    await expect(promise).rejects.toThrow('Invalid output of node node[2]');
+  });
+});
+
+describe('cache', () => {
+  async function runNode(
+    config: any,
+    cache: ReturnType<typeof memoryCache>,
+    rootInput: any = { value: 1 }
+  ) {
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      config,
+      rootInput,
+      context: {},
+      cache,
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+    return promise;
+  }
+
+  test('caches by default', async () => {
+    const cache = memoryCache();
+    let runs = 0;
+    const config = {
+      run: ({ rootInput }: any) => {
+        runs += 1;
+        return rootInput.value + 1;
+      },
+    };
+
+    expect(await runNode(config, cache)).toEqual({ name: 'node', output: 2 });
+    expect(await runNode(config, cache)).toEqual({ name: 'node', output: 2 });
+    expect(runs).toBe(1);
+
+    // A different root input is a different key.
+    expect(await runNode(config, cache, { value: 2 })).toEqual({ name: 'node', output: 3 });
+    expect(runs).toBe(2);
+  });
+
+  test('cache: false', async () => {
+    const cache = memoryCache();
+    let runs = 0;
+    const config = {
+      cache: false,
+      run: () => {
+        runs += 1;
+        return runs;
+      },
+    };
+
+    expect(await runNode(config, cache)).toEqual({ name: 'node', output: 1 });
+    expect(await runNode(config, cache)).toEqual({ name: 'node', output: 2 });
+  });
+
+  test('custom key', async () => {
+    const cache = memoryCache();
+    let runs = 0;
+    const config = {
+      cache: { key: ({ rootInput }: any) => `${rootInput.value}` },
+      run: ({ rootInput }: any) => {
+        runs += 1;
+        return rootInput.value + 1;
+      },
+    };
+
+    expect(await runNode(config, cache, { value: 1, ignored: 'a' })).toEqual({
+      name: 'node',
+      output: 2,
+    });
+    // The key ignores the other parts of the root input.
+    expect(await runNode(config, cache, { value: 1, ignored: 'b' })).toEqual({
+      name: 'node',
+      output: 2,
+    });
+    expect(runs).toBe(1);
+
+    // Changing the version invalidates the key.
+    expect(await runNode({ ...config, cacheVersion: 2 }, cache)).toEqual({
+      name: 'node',
+      output: 2,
+    });
+    expect(runs).toBe(2);
+  });
+
+  test('a failed cache write is reported without failing the node', async () => {
+    const cache = {
+      ...memoryCache(),
+      set: async () => {
+        throw new Error('cache down');
+      },
+    };
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      config: { run: () => 1 },
+      rootInput: {},
+      context: {},
+      cache,
+    });
+
+    const errors: string[] = [];
+    const reported = new Promise((resolve) => {
+      runner.on('ramus:cacheError', ({ node, error }) => {
+        errors.push(`${node}: ${error.message}`);
+        resolve(undefined);
+      });
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    expect(await promise).toEqual({ name: 'node', output: 1 });
+    await reported;
+    expect(errors).toEqual(['node: cache down']);
+    expect(runner.state).toBe('finished');
+  });
+});
+
+describe('retry', () => {
+  test('succeeds after retrying', async () => {
+    let attempts = 0;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      config: {
+        retry: { maxAttempts: 3, initialDelayMs: 1 },
+        run: ({ context }) => {
+          attempts += 1;
+          if (attempts < 3) {
+            throw new Error('transient failure');
+          }
+          return context.value + 1;
+        },
+      },
+      rootInput: {},
+      context: { value: 1 },
+    });
+
+    let states: string[] = [];
+    runner.on('state', (e) => states.push(`${e.attempt}:${e.state}`));
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    let result = await promise;
+    expect(result).toEqual({ name: 'node', output: 2 });
+    expect(attempts).toBe(3);
+    expect(runner.state).toBe('finished');
+    expect(states).toEqual([
+      '1:running',
+      '1:retrying',
+      '2:running',
+      '2:retrying',
+      '3:running',
+      '3:finished',
+    ]);
+  });
+
+  test('fails after max attempts', async () => {
+    let attempts = 0;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      config: {
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+        run: () => {
+          attempts += 1;
+          throw new Error(`failure ${attempts}`);
+        },
+      },
+      rootInput: {},
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    await expect(promise).rejects.toThrow('failure 2');
+    expect(attempts).toBe(2);
+    expect(runner.state).toBe('error');
+  });
+
+  test('does not retry non-retryable errors', async () => {
+    let attempts = 0;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      config: {
+        retry: {
+          maxAttempts: 5,
+          initialDelayMs: 1,
+          retryable: (e) => e.message !== 'fatal',
+        },
+        run: () => {
+          attempts += 1;
+          throw new Error('fatal');
+        },
+      },
+      rootInput: {},
+      context: {},
+    });
+
+    const { promise } = outputCatcher(runner);
+    runner.init([]);
+    await runner.run();
+
+    await expect(promise).rejects.toThrow('fatal');
+    expect(attempts).toBe(1);
+  });
+
+  test('cancel stops the wait between attempts', async () => {
+    let attempts = 0;
+    let runner = new DagNodeRunner({
+      name: 'node',
+      dagName: 'node',
+      config: {
+        retry: { maxAttempts: 3, initialDelayMs: 10_000 },
+        run: () => {
+          attempts += 1;
+          throw new Error('failed');
+        },
+      },
+      rootInput: {},
+      context: {},
+    });
+
+    runner.on('state', (e) => {
+      if (e.state === 'retrying') {
+        runner.cancel();
+      }
+    });
+
+    const start = Date.now();
+    runner.init([]);
+    await runner.run();
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(attempts).toBe(1);
+    expect(runner.state).toBe('cancelled');
+  });
+});
+
 test.todo('exitIfCancelled', async () => {});
 
 test.todo('cancel before run', async () => {});
 
-test.todo('cancel during run', async () => {});
+test('cancel during run', async () => {
+  let sawAbort = false;
+  let runner = new DagNodeRunner({
+    name: 'node',
+    dagName: 'node',
+    config: {
+      run: ({ signal }) =>
+        new Promise((resolve) => {
+          signal.addEventListener('abort', () => {
+            sawAbort = true;
+          });
+        }),
+    },
+    rootInput: {},
+    context: {},
+  });
+
+  const { finished } = outputCatcher(runner);
+  runner.init([]);
+
+  let runPromise = runner.run();
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  expect(runner.state).toBe('running');
+
+  runner.cancel();
+  await runPromise;
+
+  expect(sawAbort).toBe(true);
+  expect(runner.state).toBe('cancelled');
+  expect(runner.result).toBeUndefined();
+  expect(finished()).toBe(false);
+});
+
+test('cancel during an async condition', async () => {
+  let ran = false;
+  let runner = new DagNodeRunner({
+    name: 'node',
+    dagName: 'node',
+    config: {
+      condition: () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 20)),
+      run: () => {
+        ran = true;
+        return 1;
+      },
+    },
+    rootInput: {},
+    context: {},
+  });
+
+  const { finished } = outputCatcher(runner);
+  runner.init([]);
+
+  let runPromise = runner.run();
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  runner.cancel();
+  await runPromise;
+
+  expect(ran).toBe(false);
+  expect(runner.state).toBe('cancelled');
+  expect(finished()).toBe(false);
+});
+
+test('timeout', async () => {
+  let signalReason: unknown;
+  let runner = new DagNodeRunner({
+    name: 'node',
+    dagName: 'node',
+    config: {
+      timeoutMs: 10,
+      run: ({ signal }) => {
+        signal.addEventListener('abort', () => {
+          signalReason = signal.reason;
+        });
+        // Never resolves, so the timeout has to stop it.
+        return new Promise(() => {});
+      },
+    },
+    rootInput: {},
+    context: {},
+  });
+
+  const { promise } = outputCatcher(runner);
+  runner.init([]);
+  await runner.run();
+
+  await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+  expect(signalReason).toBeInstanceOf(TimeoutError);
+  expect(runner.state).toBe('error');
+});
 
 test.todo('cancel after finish', async () => {});
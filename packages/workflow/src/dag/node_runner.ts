@@ -1,6 +1,16 @@
 import { EventEmitter } from 'events';
-import opentelemetry, { AttributeValue } from '@opentelemetry/api';
-import type { AnyInputs, DagNode, DagNodeState } from './types.js';
+import opentelemetry, { AttributeValue, Span } from '@opentelemetry/api';
+import type {
+  AnyDagNode,
+  AnyInputs,
+  DagApprovalRequest,
+  DagMapNode,
+  DagNode,
+  DagNodeInput,
+  DagNodeState,
+  DagNodeStateEvent,
+  DagSubflowNode,
+} from './types.js';
 import {
   ChronicleClientOptions,
   RunContext,
@@ -8,9 +18,23 @@ import {
   runInSpan,
   toSpanAttributeValue,
 } from '@dimfeld/chronicle';
-import { calculateCacheKey, type NodeResultCache } from '../cache.js';
-import { Semaphore, acquireSemaphores } from '../semaphore.js';
-import { CancelledError } from '../errors.js';
+import { calculateCacheKey, versionedCacheKey, type NodeResultCache } from '../cache.js';
+import { Semaphore, SemaphoreAcquireOptions, acquireSemaphores } from '../semaphore.js';
+import type { Runnable } from '../runnable.js';
+import { StateMachineRunner } from '../state_machine/runner.js';
+import type { StateMachine, StateMachineStateEvent } from '../state_machine/types.js';
+import { DagRunner } from './runner.js';
+import { retryDelay, shouldRetry } from '../retry.js';
+import { delay, raceSignal, timeoutController } from '../signal.js';
+import { validateSchema } from '../validation.js';
+import {
+  ApprovalRejectedError,
+  CancelledError,
+  SerializedError,
+  TimeoutError,
+  deserializeError,
+  serializeError,
+} from '../errors.js';
 
 export interface RunnerSuccessResult<T> {
   type: 'success';
@@ -24,6 +48,17 @@ export interface RunnerErrorResult {
 
 export type RunnerResult<DATA> = RunnerSuccessResult<DATA> | RunnerErrorResult;
 
+/** The saved state of a node runner, which can be used to revive a DAG later. */
+export interface DagNodeRunnerSnapshot {
+  state: DagNodeState;
+  /** Parents that had not finished yet */
+  waiting: string[];
+  inputs: AnyInputs;
+  result?: RunnerSuccessResult<unknown> | { type: 'error'; error: SerializedError };
+  /** If the node was approved, for nodes with `requiresApproval`. */
+  approved?: boolean;
+}
+
 export interface DagNodeRunnerOptions<
   CONTEXT extends object,
   ROOTINPUT,
@@ -32,13 +67,15 @@ export interface DagNodeRunnerOptions<
 > {
   name: string;
   dagName: string;
-  config: DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>;
+  config: AnyDagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>;
   context: CONTEXT;
   /** External input passed when running the DAG */
   rootInput: ROOTINPUT;
   cache?: NodeResultCache;
   autorun?: () => boolean;
   semaphores?: Semaphore[];
+  /** Passed to the semaphores, so that they can share slots fairly between tenants. */
+  tenant?: string;
 }
 
 export class DagNodeRunner<
@@ -47,24 +84,36 @@ export class DagNodeRunner<
   INPUTS extends AnyInputs,
   OUTPUT,
 > extends EventEmitter<{
-  state: [{ sourceNode: string; source: string; state: DagNodeState }];
+  state: [DagNodeStateEvent];
   finish: [{ name: string; output: OUTPUT }];
   'ramus:error': [{ error: Error }];
+  'ramus:cacheError': [{ node: string; error: Error }];
   cancelled: [];
   parentError: [];
+  skipped: [{ name: string }];
+  awaitingApproval: [DagApprovalRequest];
+  /** State changes from a state machine running as a subflow of this node. */
+  'state_machine:state': [StateMachineStateEvent];
 }> {
   name: string;
   dagName: string;
-  config: DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>;
+  config: AnyDagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>;
   context: CONTEXT;
   state: DagNodeState;
+  /** The current attempt number, when the node has a retry policy. */
+  attempt = 0;
+  /** Aborts the current attempt when the node is cancelled or times out. */
+  abortController?: AbortController;
   cache?: NodeResultCache;
   result?: RunnerResult<OUTPUT>;
   parentSpanContext?: opentelemetry.Context;
   chronicleOptions?: ChronicleClientOptions;
   semaphores?: Semaphore[];
+  tenant?: string;
   autorun: () => boolean;
   runContext: RunContext | undefined;
+  /** If the node was approved to run, for nodes with `requiresApproval`. */
+  approved = false;
   /** A promise which resolves when the node finishes or rejects on an error. */
   _finished: Promise<{ name: string; output: OUTPUT }> | undefined;
 
@@ -81,6 +130,7 @@ export class DagNodeRunner<
     cache,
     autorun,
     semaphores,
+    tenant,
   }: DagNodeRunnerOptions<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>) {
     super();
     this.name = name;
@@ -92,6 +142,7 @@ export class DagNodeRunner<
     this.context = context;
     this.state = 'waiting';
     this.semaphores = semaphores;
+    this.tenant = tenant;
     this.waiting = new Set();
     this.inputs = {};
   }
@@ -102,9 +153,21 @@ export class DagNodeRunner<
 
   get finished() {
     if (!this._finished) {
-      // TODO This may need to start out resolved once we can revive a DAG.
+      if (this.state === 'finished' && this.result?.type === 'success') {
+        // This node was revived after it had already finished.
+        this._finished = Promise.resolve({ name: this.name, output: this.result.output });
+        return this._finished;
+      } else if (this.state === 'error' && this.result?.type === 'error') {
+        this._finished = Promise.reject(this.result.error);
+        return this._finished;
+      } else if (this.state === 'skipped') {
+        this._finished = Promise.resolve({ name: this.name, output: undefined as OUTPUT });
+        return this._finished;
+      }
+
       this._finished = new Promise((resolve, reject) => {
         this.once('finish', resolve);
+        this.once('skipped', () => resolve({ name: this.name, output: undefined as OUTPUT }));
         this.once('cancelled', () => {
           reject(new CancelledError());
         });
@@ -116,6 +179,12 @@ export class DagNodeRunner<
 
   setState(state: DagNodeState) {
     this.state = state;
+    this.emit('state', {
+      sourceNode: this.name,
+      source: this.dagName,
+      state,
+      attempt: this.attempt,
+    });
   }
 
   /** `init` is called after the constructors have all been run, which is mostly a design
@@ -154,18 +223,82 @@ export class DagNodeRunner<
       }
     };
 
+    const handleSkippedParent = (name: string) => {
+      if (this.state !== 'waiting') {
+        return;
+      }
+
+      if (this.config.tolerateSkippedParents) {
+        handleFinishedParent({ name, output: undefined });
+      } else {
+        this.skip();
+      }
+    };
+
     for (let parent of parents) {
       this.waiting.add(parent.name);
 
       parent.once('finish', handleFinishedParent);
       parent.once('ramus:error', () => handleParentError(parent.name));
       parent.once('parentError', () => handleParentError(parent.name));
+      parent.once('skipped', () => handleSkippedParent(parent.name));
+    }
+  }
+
+  /** Mark this node as skipped, which also skips children that don't tolerate skipped parents. */
+  private skip() {
+    this.setState('skipped');
+    this.emit('skipped', { name: this.name });
+  }
+
+  /** Return the state of this node, for saving and reviving later. */
+  serialize(): DagNodeRunnerSnapshot {
+    let result: DagNodeRunnerSnapshot['result'];
+    if (this.result?.type === 'error') {
+      result = { type: 'error', error: serializeError(this.result.error) };
+    } else {
+      result = this.result;
+    }
+
+    return {
+      state: this.state,
+      waiting: [...this.waiting],
+      inputs: { ...this.inputs },
+      result,
+      approved: this.approved || undefined,
+    };
+  }
+
+  /** Restore the state of this node from a snapshot. This should be called after `init`. */
+  restore(snapshot: DagNodeRunnerSnapshot) {
+    // A node that was in progress when the snapshot was taken never finished, so it needs to run again.
+    this.state =
+      snapshot.state === 'running' ||
+      snapshot.state === 'pendingSemaphore' ||
+      snapshot.state === 'retrying'
+        ? 'ready'
+        : snapshot.state;
+    this.waiting = new Set(snapshot.waiting);
+    this.inputs = { ...snapshot.inputs } as Partial<INPUTS>;
+    this.approved = snapshot.approved ?? false;
+
+    if (snapshot.result?.type === 'error') {
+      this.result = { type: 'error', error: deserializeError(snapshot.result.error) };
+    } else {
+      this.result = snapshot.result as RunnerSuccessResult<OUTPUT> | undefined;
     }
   }
 
   cancel() {
-    if (this.stateReadyToRun() || this.state === 'running') {
+    if (
+      this.stateReadyToRun() ||
+      this.state === 'awaitingApproval' ||
+      this.state === 'pendingSemaphore' ||
+      this.state === 'running' ||
+      this.state === 'retrying'
+    ) {
       this.setState('cancelled');
+      this.abortController?.abort(new CancelledError());
     }
   }
 
@@ -206,9 +339,112 @@ export class DagNodeRunner<
       }
     }
 
+    // The condition was already checked before the node asked for approval.
+    if (this.config.condition && !this.approved) {
+      let shouldRun: boolean;
+      try {
+        shouldRun = await this.config.condition({
+          input: this.inputs as INPUTS,
+          rootInput: this.rootInput,
+          context: this.context,
+        });
+      } catch (e) {
+        let err = e as Error;
+        this.setState('error');
+        this.result = { type: 'error', error: err };
+        this.emit('ramus:error', { error: err });
+        return true;
+      }
+
+      // The node may have been cancelled while an async condition was running.
+      if (this.state === 'cancelled') {
+        return true;
+      }
+
+      if (!shouldRun) {
+        this.skip();
+        return true;
+      }
+    }
+
+    try {
+      validateSchema(this.config.inputSchema, this.inputs, `input for node ${this.name}`);
+    } catch (e) {
+      let err = e as Error;
+      this.setState('error');
+      this.result = { type: 'error', error: err };
+      this.emit('ramus:error', { error: err });
+      return true;
+    }
+
+    if (this.config.requiresApproval && !this.approved) {
+      this.setState('awaitingApproval');
+      this.emit('awaitingApproval', {
+        sourceNode: this.name,
+        source: this.dagName,
+        input: { ...this.inputs },
+      });
+      return false;
+    }
+
+    const maxAttempts = this.config.retry?.maxAttempts ?? 1;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const retryError = await this.runAttempt(attempt);
+      if (!retryError) {
+        break;
+      }
+
+      // Let `cancel` cut the wait short.
+      const controller = new AbortController();
+      this.abortController = controller;
+      this.setState('retrying');
+      await delay(retryDelay(this.config.retry!, attempt), controller.signal);
+      this.abortController = undefined;
+
+      if (this.state === 'cancelled') {
+        break;
+      }
+    }
+
+    // true just indicates that we ran, with no bearing on success or failure
+    return true;
+  }
+
+  /** Let a node that is awaiting approval run. Values in `input` replace the matching parent outputs. */
+  approve(input?: Partial<INPUTS>) {
+    if (this.state !== 'awaitingApproval') {
+      throw new Error(`Node ${this.name} is not awaiting approval`);
+    }
+
+    this.approved = true;
+    if (input) {
+      this.inputs = { ...this.inputs, ...input };
+    }
+    this.setState('ready');
+    return this.run();
+  }
+
+  /** Fail a node that is awaiting approval with an `ApprovalRejectedError`. */
+  reject(reason: string) {
+    if (this.state !== 'awaitingApproval') {
+      throw new Error(`Node ${this.name} is not awaiting approval`);
+    }
+
+    const error = new ApprovalRejectedError(this.name, reason);
+    this.setState('error');
+    this.result = { type: 'error', error };
+    this.emit('ramus:error', { error });
+  }
+
+  /** Run a single attempt of the node. If the attempt failed and should be retried, the error is returned. */
+  private async runAttempt(attempt: number): Promise<Error | undefined> {
+    this.attempt = attempt;
     const parentContext = this.parentSpanContext ?? opentelemetry.context.active();
     const semaphoreKey = this.config.semaphoreKey;
+    const mapConfig = isMapNode(this.config) ? this.config : undefined;
+    const subflowConfig = isSubflowNode(this.config) ? this.config : undefined;
 
+    let retryError: Error | undefined;
     let semRelease: (() => Promise<void>) | undefined;
     try {
       await runStep(
@@ -225,17 +461,24 @@ export class DagNodeRunner<
           parentSpan: parentContext,
         },
         async (ctx, span) => {
-          if (semaphoreKey && this.semaphores?.length) {
-            this.setState('pendingSemaphore');
-            semRelease = await runInSpan(
-              'acquire semaphores',
-              { attributes: { semaphoreKey } },
-              () => acquireSemaphores(this.semaphores!, semaphoreKey)
-            );
-          }
-
-          this.setState('running');
+          const controller = new AbortController();
+          this.abortController = controller;
           try {
+            // Map nodes acquire the semaphores separately for each item.
+            if (semaphoreKey && this.semaphores?.length && !mapConfig) {
+              this.setState('pendingSemaphore');
+              const options = this.semaphoreOptions(controller.signal);
+              const waitStart = Date.now();
+              semRelease = await runInSpan(
+                'acquire semaphores',
+                { attributes: { semaphoreKey, weight: options.weight } },
+                () => acquireSemaphores(this.semaphores!, semaphoreKey, options)
+              );
+              span.setAttribute('workflow.dag.node.semaphore_wait_ms', Date.now() - waitStart);
+            }
+
+            this.setState('running');
+            span.setAttribute('workflow.dag.node.attempt', attempt);
             if (this.config.parents) {
               span.setAttribute('workflow.dag.node.parents', this.config.parents.join(', '));
             }
@@ -246,29 +489,35 @@ export class DagNodeRunner<
 
             let output: OUTPUT;
 
-            const cacheKey = this.cache
-              ? calculateCacheKey(this.config.run, this.inputs, this.rootInput)
-              : '';
-            const cachedValue = await this.cache?.get(this.name, cacheKey);
+            const cacheable = this.shouldCache();
+            const cacheKey = cacheable ? this.cacheKey() : '';
+            const cachedValue = cacheable ? await this.cache?.get(this.name, cacheKey) : undefined;
 
             if (cachedValue) {
               output = JSON.parse(cachedValue) as OUTPUT;
               span.setAttribute('workflow.dag.cache_hit', true);
             } else {
-              output = await this.config.run({
-                input: this.inputs as INPUTS,
-                rootInput: this.rootInput,
-                context: this.context,
-                span,
-                isCancelled: () => this.state === 'cancelled',
-                exitIfCancelled: () => {
-                  if (this.state === 'cancelled') {
-                    throw new CancelledError();
-                  }
-                },
-              });
-
-              this.cache?.set(this.name, cacheKey, JSON.stringify(output));
+              if (mapConfig) {
+                output = (await this.runMapItems(mapConfig, controller, ctx, span)) as OUTPUT;
+              } else if (subflowConfig) {
+                output = await this.invoke(controller.signal, (signal) =>
+                  this.runSubflow(subflowConfig, ctx, span, signal)
+                );
+              } else {
+                const run = (this.config as DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>).run;
+                output = await this.invoke(controller.signal, (signal) =>
+                  run(this.nodeInput(span, signal))
+                );
+              }
+
+              // Map nodes validate each item's output instead.
+              if (!mapConfig) {
+                validateSchema(this.config.outputSchema, output, `output of node ${this.name}`);
+              }
+
+              if (cacheable) {
+                this.saveToCache(cacheKey, output);
+              }
             }
 
             span.setAttribute(
@@ -285,14 +534,30 @@ export class DagNodeRunner<
             if (e instanceof CancelledError) {
               // Don't emit an error if we were cancelled
               ctx.recordStepInfo({ cancelled: true });
+
+              if (this.state !== 'cancelled') {
+                // The cancellation came from inside the node, such as from a subflow, so pass it on.
+                this.setState('cancelled');
+                this.emit('cancelled');
+              }
             } else {
               let err = e as Error;
-              this.setState('error');
-              this.result = { type: 'error', error: err };
-              this.emit('ramus:error', { error: err });
+              // Map nodes retry each item on its own, so there's no need to retry the whole node.
+              if (
+                this.state !== 'cancelled' &&
+                !mapConfig &&
+                shouldRetry(this.config.retry, err, attempt)
+              ) {
+                retryError = err;
+              } else {
+                this.setState('error');
+                this.result = { type: 'error', error: err };
+                this.emit('ramus:error', { error: err });
+              }
               throw e;
             }
           } finally {
+            this.abortController = undefined;
             span.setAttribute('workflow.dag.node.finishState', this.state);
           }
         }
@@ -304,7 +569,296 @@ export class DagNodeRunner<
       semRelease?.();
     }
 
-    // true just indicates that we ran, with no bearing on success or failure
-    return true;
+    return retryError;
   }
+
+  private semaphoreOptions(signal: AbortSignal): SemaphoreAcquireOptions {
+    const weight = this.config.semaphoreWeight;
+    return {
+      weight:
+        typeof weight === 'function'
+          ? weight({
+              input: this.inputs as INPUTS,
+              rootInput: this.rootInput,
+              context: this.context,
+            })
+          : weight,
+      priority: this.config.priority,
+      tenant: this.tenant,
+      signal,
+    };
+  }
+
+  /** Write the output to the cache in the background. A failed write emits `ramus:cacheError` instead of failing
+   * the node. */
+  private saveToCache(key: string, output: OUTPUT) {
+    const cache = this.cache!;
+    const report = (error: unknown) =>
+      this.emit('ramus:cacheError', { node: this.name, error: error as Error });
+    try {
+      const value = JSON.stringify(output);
+      Promise.resolve()
+        .then(() => cache.set(this.name, key, value))
+        .catch(report);
+    } catch (e) {
+      report(e);
+    }
+  }
+
+  /** Return true if this node's result should be read from and written to the cache. */
+  private shouldCache() {
+    const cacheConfig = this.config.cache ?? true;
+    if (!this.cache || cacheConfig === false) {
+      return false;
+    }
+
+    // Without a key function, the key comes from the node's code, and subflows don't have any.
+    return !isSubflowNode(this.config) || typeof cacheConfig === 'object';
+  }
+
+  private cacheKey() {
+    const cacheConfig = this.config.cache;
+    if (typeof cacheConfig === 'object') {
+      const key = cacheConfig.key({
+        input: this.inputs as INPUTS,
+        rootInput: this.rootInput,
+        context: this.context,
+      });
+      return versionedCacheKey(key, this.config.cacheVersion);
+    }
+
+    return calculateCacheKey(
+      (this.config as DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>).run,
+      this.inputs,
+      this.rootInput,
+      this.config.cacheVersion
+    );
+  }
+
+  private nodeInput(span: Span, signal: AbortSignal): DagNodeInput<CONTEXT, ROOTINPUT, INPUTS> {
+    return {
+      input: this.inputs as INPUTS,
+      rootInput: this.rootInput,
+      context: this.context,
+      span,
+      signal,
+      isCancelled: () => this.state === 'cancelled',
+      exitIfCancelled: () => {
+        if (this.state === 'cancelled') {
+          throw new CancelledError();
+        }
+      },
+    };
+  }
+
+  /** Call a node's run function, stopping it if the node is cancelled or the call takes longer than the node's
+   * `timeoutMs`. */
+  private async invoke<T>(
+    nodeSignal: AbortSignal,
+    f: (signal: AbortSignal) => T | Promise<T>
+  ): Promise<T> {
+    const timeoutMs = this.config.timeoutMs;
+    const { controller, clear } = timeoutController(timeoutMs, () => new TimeoutError(timeoutMs!));
+    const signal = AbortSignal.any([nodeSignal, controller.signal]);
+
+    try {
+      return await raceSignal(signal, f(signal));
+    } finally {
+      clear();
+    }
+  }
+
+  private emitItemState(item: number, state: DagNodeState) {
+    this.emit('state', {
+      sourceNode: this.name,
+      source: this.dagName,
+      state,
+      attempt: this.attempt,
+      item,
+    });
+  }
+
+  /** Run a map node on each item of its input. */
+  private async runMapItems(
+    config: DagMapNode<CONTEXT, ROOTINPUT, INPUTS, unknown, unknown>,
+    controller: AbortController,
+    runContext: RunContext,
+    span: Span
+  ): Promise<unknown[]> {
+    const items = this.inputs[config.mapOver];
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `Node '${this.name}' maps over '${config.mapOver}', which did not return an array`
+      );
+    }
+
+    span.setAttribute('workflow.dag.node.items', items.length);
+
+    let failed = 0;
+    const output = await Promise.all(
+      items.map(async (item, index) => {
+        try {
+          return await this.runMapItem(config, item, index, controller.signal, runContext);
+        } catch (e) {
+          if (config.tolerateItemFailures && !(e instanceof CancelledError)) {
+            failed += 1;
+            return undefined;
+          }
+
+          // Stop the other items since the node has failed.
+          controller.abort(new CancelledError());
+          throw e;
+        }
+      })
+    );
+
+    span.setAttribute('workflow.dag.node.failed_items', failed);
+    return output;
+  }
+
+  private async runMapItem(
+    config: DagMapNode<CONTEXT, ROOTINPUT, INPUTS, unknown, unknown>,
+    item: unknown,
+    index: number,
+    nodeSignal: AbortSignal,
+    runContext: RunContext
+  ) {
+    const semaphoreKey = config.semaphoreKey;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await runStep(
+          {
+            name: `${this.name}[${index}]`,
+            type: 'dag:node:item',
+            input: item,
+            tags: config.tags,
+            parentRunContext: runContext,
+          },
+          async (ctx, span) => {
+            let semRelease: (() => Promise<void>) | undefined;
+            try {
+              if (semaphoreKey && this.semaphores?.length) {
+                this.emitItemState(index, 'pendingSemaphore');
+                const waitStart = Date.now();
+                semRelease = await acquireSemaphores(
+                  this.semaphores,
+                  semaphoreKey,
+                  this.semaphoreOptions(nodeSignal)
+                );
+                span.setAttribute('workflow.dag.node.semaphore_wait_ms', Date.now() - waitStart);
+              }
+
+              this.emitItemState(index, 'running');
+              span.setAttribute('workflow.dag.node.item', index);
+              span.setAttribute('workflow.dag.node.attempt', attempt);
+
+              const output = await this.invoke(nodeSignal, (signal) =>
+                config.run({ ...this.nodeInput(span, signal), item, index })
+              );
+              validateSchema(config.outputSchema, output, `output of node ${this.name}[${index}]`);
+              this.emitItemState(index, 'finished');
+              return output;
+            } finally {
+              semRelease?.();
+            }
+          }
+        );
+      } catch (e) {
+        const err = e as Error;
+        if (nodeSignal.aborted || !shouldRetry(config.retry, err, attempt)) {
+          this.emitItemState(index, err instanceof CancelledError ? 'cancelled' : 'error');
+          throw e;
+        }
+
+        this.emitItemState(index, 'retrying');
+        await delay(retryDelay(config.retry!, attempt), nodeSignal);
+        if (nodeSignal.aborted) {
+          this.emitItemState(index, 'cancelled');
+          throw nodeSignal.reason;
+        }
+      }
+    }
+  }
+
+  /** Run a DAG or state machine as the body of this node. */
+  private async runSubflow(
+    config: DagSubflowNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>,
+    runContext: RunContext,
+    span: Span,
+    signal: AbortSignal
+  ): Promise<OUTPUT> {
+    const input = config.input
+      ? await config.input(this.nodeInput(span, signal))
+      : (this.inputs as unknown);
+
+    let child: Runnable<OUTPUT>;
+    if (isStateMachine(config.subflow)) {
+      const machine = new StateMachineRunner<object, unknown, OUTPUT>({
+        config: config.subflow,
+        input,
+        cache: this.cache,
+        semaphores: this.semaphores,
+        tenant: this.tenant,
+        parentRunContext: runContext,
+      });
+
+      machine.on('state_machine:state', (e) => {
+        this.emit('state_machine:state', { ...e, state: `${this.name}/${e.state}` });
+      });
+      child = machine;
+    } else {
+      const dag = new DagRunner<object, unknown, OUTPUT>({
+        dag: config.subflow,
+        input,
+        cache: this.cache,
+        semaphores: this.semaphores,
+        tenant: this.tenant,
+        parentRunContext: runContext,
+      });
+
+      dag.on('dag:state', (e) => {
+        this.emit('state', { ...e, sourceNode: `${this.name}/${e.sourceNode}` });
+      });
+      dag.on('state_machine:state', (e) => {
+        this.emit('state_machine:state', { ...e, state: `${this.name}/${e.state}` });
+      });
+      child = dag;
+    }
+
+    child.on('ramus:cacheError', (e) => this.emit('ramus:cacheError', e));
+
+    const subflowName =
+      'config' in config.subflow ? config.subflow.config.name : config.subflow.name;
+    span.setAttribute('workflow.dag.node.subflow', subflowName);
+
+    const onAbort = () => child.cancel();
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const finished = child.finished;
+      // Errors are reported through `finished`.
+      Promise.resolve(child.run()).catch(() => {});
+      return await finished;
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function isMapNode<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs, OUTPUT>(
+  config: AnyDagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>
+): config is DagMapNode<CONTEXT, ROOTINPUT, INPUTS, any, any> {
+  return 'mapOver' in config && !!config.mapOver;
+}
+
+function isSubflowNode<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs, OUTPUT>(
+  config: AnyDagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>
+): config is DagSubflowNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT> {
+  return 'subflow' in config && !!config.subflow;
+}
+
+function isStateMachine(
+  subflow: DagSubflowNode<any, any, any, any>['subflow']
+): subflow is StateMachine<any, any> {
+  return 'initial' in subflow;
 }
@@ -1,7 +1,10 @@
-import { expect, test } from 'bun:test';
+import { describe, expect, test } from 'bun:test';
 
-import { DagRunner, runDag } from './runner.js';
+import { DagRunner, DagRunnerSnapshot, runDag } from './runner.js';
 import { Dag, DagConfiguration } from './types.js';
+import { memoryRunStore } from '../run_store.js';
+import { ApprovalRejectedError, CancelledError, TimeoutError, ValidationError } from '../errors.js';
+import type { StateMachine } from '../state_machine/types.js';
 import { startRun, createChronicleClient, ChronicleEvent, RunStartEvent, StepStartEvent } from '@dimfeld/chronicle';
 
 interface Context {
@@ -250,3 +253,674 @@ test('node error when not tolerating failures', async () => {
     'failure'
   );
 });
+
+test('serialize and revive a partially-finished DAG', async () => {
+  let runCounts: Record<string, number> = {};
+  function counted<T>(name: string, f: (input: any) => T) {
+    return (input: any) => {
+      runCounts[name] = (runCounts[name] ?? 0) + 1;
+      return f(input);
+    };
+  }
+
+  const dag: Dag<Context, number> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: {
+        run: counted('root', ({ context }) => context.ctxValue + 1),
+      },
+      intone: {
+        parents: ['root'],
+        run: counted('intone', ({ input }) => input.root + 1),
+      },
+      inttwo: {
+        parents: ['root'],
+        run: counted('inttwo', ({ input }) => input.root + 2),
+      },
+      collector: {
+        parents: ['intone', 'inttwo'],
+        run: counted(
+          'collector',
+          ({ input, rootInput }) => input.intone + input.inttwo + rootInput
+        ),
+      },
+    },
+  };
+
+  // Run only the root node and one of its children, as if the process stopped partway through.
+  const first = new DagRunner<Context, number, number>({
+    dag,
+    input: 10,
+    context: { ctxValue: 5 },
+    autorun: () => false,
+  });
+
+  await first.runners.get('root')!.run();
+  await first.runners.get('intone')!.run();
+
+  const snapshot = JSON.parse(JSON.stringify(first.serialize()));
+  expect(snapshot.id).toEqual(first.id);
+  expect(snapshot.nodes.root.state).toEqual('finished');
+  expect(snapshot.nodes.intone.state).toEqual('finished');
+  expect(snapshot.nodes.inttwo.state).toEqual('ready');
+  expect(snapshot.nodes.collector.waiting).toEqual(['inttwo']);
+
+  const revived = DagRunner.revive<Context, number, number>(snapshot, { dag });
+  expect(revived.id).toEqual(first.id);
+  expect(revived.context).toEqual({ ctxValue: 5 });
+
+  const finished = revived.finished;
+  revived.run();
+  let result = await finished;
+  // (5 + 1 + 1) + (5 + 1 + 2) + 10
+  expect(result).toEqual(25);
+  expect(runCounts).toEqual({ root: 1, intone: 1, inttwo: 1, collector: 1 });
+});
+
+test('revive a finished DAG', async () => {
+  let runs = 0;
+  const dag: Dag<Context, undefined> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: {
+        run: ({ context }) => {
+          runs += 1;
+          return context.ctxValue + 1;
+        },
+      },
+    },
+  };
+
+  const first = new DagRunner<Context, undefined, number>({ dag, input: undefined });
+  const firstFinished = first.finished;
+  first.run();
+  expect(await firstFinished).toEqual(11);
+
+  const revived = DagRunner.revive<Context, undefined, number>(first.serialize(), { dag });
+  expect(revived.output).toEqual(11);
+
+  revived.run();
+  expect(await revived.finished).toEqual(11);
+  expect(runs).toEqual(1);
+});
+
+test('revive a DAG with a failed node', async () => {
+  const dag: Dag<Context, undefined> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: {
+        run: () => {
+          throw new Error('failure');
+        },
+      },
+      child: {
+        parents: ['root'],
+        run: () => 1,
+      },
+    },
+  };
+
+  const first = new DagRunner<Context, undefined, number>({ dag, input: undefined });
+  const firstFinished = first.finished;
+  await expect(first.run()).rejects.toThrowError('failure');
+  await expect(firstFinished).rejects.toThrowError('failure');
+
+  const snapshot = JSON.parse(JSON.stringify(first.serialize()));
+  expect(snapshot.nodes.root.result.error.message).toEqual('failure');
+
+  const revived = DagRunner.revive<Context, undefined, number>(snapshot, { dag });
+  expect(revived.runners.get('root')!.result).toMatchObject({
+    type: 'error',
+    error: { message: 'failure' },
+  });
+
+  const finished = revived.finished;
+  await expect(revived.run()).rejects.toThrowError('failure');
+  await expect(finished).rejects.toThrowError('failure');
+  expect(revived.output).toBeUndefined();
+});
+
+test('records runs to a store', async () => {
+  const store = memoryRunStore();
+  const dag: Dag<Context, number> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: {
+        run: ({ context, rootInput }) => context.ctxValue + rootInput,
+      },
+      child: {
+        parents: ['root'],
+        run: ({ input }) => input.root * 2,
+      },
+    },
+  };
+
+  const runner = new DagRunner<Context, number, number>({ id: 'run-1', dag, input: 1, store });
+  let states: string[] = [];
+  runner.on('dag:state', (e) => states.push(`${e.sourceNode}:${e.state}`));
+
+  const finished = runner.finished;
+  runner.run();
+  expect(await finished).toEqual(22);
+  await runner.recorder?.flush();
+
+  expect(states).toEqual(['root:running', 'root:finished', 'child:running', 'child:finished']);
+
+  const record = await store.get('run-1');
+  expect(record).toMatchObject({ id: 'run-1', type: 'dag', name: 'test', status: 'finished' });
+
+  // The stored state can be used to revive the DAG.
+  const snapshot = record!.state as DagRunnerSnapshot<Context, number>;
+  const revived = DagRunner.revive<Context, number, number>(snapshot, { dag });
+  expect(revived.output).toEqual(22);
+  expect(revived.runners.get('child')!.state).toEqual('finished');
+});
+
+test('records a failed run as an error', async () => {
+  const store = memoryRunStore();
+  const dag: Dag<Context, undefined> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: {
+        run: () => {
+          throw new Error('failure');
+        },
+      },
+    },
+  };
+
+  const runner = new DagRunner<Context, undefined, number>({
+    id: 'run-1',
+    dag,
+    input: undefined,
+    store,
+  });
+  let events: string[] = [];
+  runner.on('ramus:error', () => events.push('error'));
+  runner.on('finish', () => events.push('finish'));
+
+  const finished = runner.finished;
+  runner.run().catch(() => {});
+  await expect(finished).rejects.toThrowError('failure');
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  await runner.recorder?.flush();
+
+  expect(events).toEqual(['error']);
+  expect(runner.status).toBe('error');
+  expect(runner.outputNode.state).toBe('cancelled');
+  expect((await store.get('run-1'))?.status).toBe('error');
+});
+
+test('reports run store errors', async () => {
+  const dag: Dag<Context, undefined> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: { run: ({ context }) => context.ctxValue },
+    },
+  };
+
+  const store = {
+    ...memoryRunStore(),
+    save: () => {
+      throw new Error('disk full');
+    },
+  };
+  const runner = new DagRunner<Context, undefined, number>({ dag, input: undefined, store });
+  let errors: string[] = [];
+  runner.on('ramus:storeError', ({ error }) => errors.push(error.message));
+
+  const finished = runner.finished;
+  runner.run();
+  expect(await finished).toEqual(10);
+  await runner.recorder?.flush();
+  expect(errors.length).toBeGreaterThan(0);
+  expect(errors.every((e) => e === 'disk full')).toBe(true);
+});
+
+test('run store errors from unstorable outputs do not fail the DAG', async () => {
+  const dag: Dag<Context, undefined> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      root: { run: () => 10n },
+    },
+  };
+
+  const runner = new DagRunner<Context, undefined, bigint>({
+    dag,
+    input: undefined,
+    store: memoryRunStore(),
+  });
+  let errors: string[] = [];
+  runner.on('ramus:storeError', ({ error }) => errors.push(error.message));
+
+  const finished = runner.finished;
+  await runner.run();
+  expect(await finished).toEqual(10n);
+  await runner.recorder?.flush();
+  expect(errors.length).toBeGreaterThan(0);
+  expect(errors.every((e) => e.includes('BigInt'))).toBe(true);
+});
+
+test('DAG timeout', async () => {
+  let aborted = false;
+  const dag: Dag<Context, undefined> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    timeoutMs: 10,
+    nodes: {
+      root: {
+        run: ({ context }) => context.ctxValue,
+      },
+      slow: {
+        parents: ['root'],
+        run: ({ signal }) =>
+          new Promise((resolve) => {
+            signal.addEventListener('abort', () => {
+              aborted = true;
+              resolve(0);
+            });
+          }),
+      },
+    },
+  };
+
+  const runner = new DagRunner<Context, undefined, number>({ dag, input: undefined });
+  const finished = runner.finished;
+  await expect(runner.run()).rejects.toBeInstanceOf(TimeoutError);
+
+  await expect(finished).rejects.toBeInstanceOf(TimeoutError);
+  expect(aborted).toBe(true);
+  expect(runner.status).toBe('error');
+  expect(runner.runners.get('slow')!.state).toBe('cancelled');
+});
+
+test('conditional branches', async () => {
+  const dag: Dag<Context, number> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      search: {
+        run: ({ rootInput }) => Array.from({ length: rootInput }, (_, i) => `result ${i}`),
+      },
+      summarize: {
+        parents: ['search'],
+        condition: ({ input }) => input.search.length > 0,
+        run: ({ input }) => `Summary of ${input.search.length} results`,
+      },
+      format: {
+        parents: ['summarize'],
+        run: ({ input }) => `**${input.summarize}**`,
+      },
+      noResults: {
+        parents: ['search'],
+        condition: ({ input }) => input.search.length === 0,
+        run: () => 'No results found',
+      },
+    },
+  };
+
+  expect(await runDag({ dag, input: 2 })).toEqual({
+    format: '**Summary of 2 results**',
+    noResults: undefined,
+  });
+
+  const runner = new DagRunner<Context, number, unknown>({ dag, input: 0 });
+  const finished = runner.finished;
+  runner.run();
+  expect(await finished).toEqual({
+    format: undefined,
+    noResults: 'No results found',
+  });
+  expect(runner.runners.get('summarize')!.state).toBe('skipped');
+  expect(runner.runners.get('format')!.state).toBe('skipped');
+});
+
+test('map node', async () => {
+  const dag: Dag<Context, string> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      search: {
+        run: ({ rootInput }) => [`${rootInput}.com`, `${rootInput}.org`],
+      },
+      fetch: {
+        parents: ['search'],
+        mapOver: 'search',
+        run: ({ item }) => `https://${item}`,
+      },
+    },
+  };
+
+  const runner = new DagRunner<Context, string, string[]>({ dag, input: 'example' });
+  let itemEvents: string[] = [];
+  runner.on('dag:state', (e) => {
+    if (e.item !== undefined) {
+      itemEvents.push(`${e.sourceNode}[${e.item}]:${e.state}`);
+    }
+  });
+
+  const finished = runner.finished;
+  runner.run();
+  expect(await finished).toEqual(['https://example.com', 'https://example.org']);
+  expect(itemEvents).toContain('fetch[0]:finished');
+  expect(itemEvents).toContain('fetch[1]:finished');
+});
+
+describe('schema validation', () => {
+  const dag: Dag<Context, { value: number }> = {
+    name: 'test',
+    context: () => ({ ctxValue: 1 }),
+    inputSchema: {
+      type: 'object',
+      required: ['value'],
+      properties: { value: { type: 'number' } },
+    },
+    outputSchema: { type: 'number', maximum: 10 },
+    nodes: {
+      root: {
+        run: ({ rootInput, context }) => rootInput.value + context.ctxValue,
+      },
+    },
+  };
+
+  test('valid input and output', async () => {
+    expect(await runDag({ dag, input: { value: 2 } })).toEqual(3);
+  });
+
+  test('invalid input', async () => {
+    let ran = false;
+    const runner = new DagRunner<Context, { value: number }, number>({
+      dag: {
+        ...dag,
+        nodes: {
+          root: {
+            run: () => {
+              ran = true;
+              return 1;
+            },
+          },
+        },
+      },
+      input: { value: 'abc' } as any,
+    });
+
+    const finished = runner.finished;
+    runner.run().catch(() => {});
+
+    const error = await finished.catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.paths).toEqual(['value']);
+    expect(runner.status).toBe('error');
+    expect(ran).toBe(false);
+  });
+
+  test('invalid output', async () => {
+    const runner = new DagRunner<Context, { value: number }, number>({
+      dag,
+      input: { value: 20 },
+    });
+
+    const finished = runner.finished;
+    runner.run().catch(() => {});
+
+    await expect(finished).rejects.toBeInstanceOf(ValidationError);
+    expect(runner.status).toBe('error');
+  });
+});
+
+describe('subflows', () => {
+  test('DAG as a node', async () => {
+    const child: Dag<Context, number> = {
+      name: 'child',
+      context: () => ({ ctxValue: 100 }),
+      nodes: {
+        double: {
+          run: ({ rootInput }) => rootInput * 2,
+        },
+        addContext: {
+          parents: ['double'],
+          run: ({ input, context }) => input.double + context.ctxValue,
+        },
+      },
+    };
+
+    const dag: Dag<Context, number> = {
+      name: 'parent',
+      context: () => ({ ctxValue: 10 }),
+      nodes: {
+        root: {
+          run: ({ rootInput }) => rootInput + 1,
+        },
+        sub: {
+          parents: ['root'],
+          subflow: child,
+          input: ({ input }) => input.root,
+        },
+      },
+    };
+
+    const runner = new DagRunner<Context, number, number>({ dag, input: 1 });
+    let states: string[] = [];
+    runner.on('dag:state', (e) => states.push(`${e.sourceNode}:${e.state}`));
+
+    const finished = runner.finished;
+    runner.run();
+    // (1 + 1) * 2 + 100
+    expect(await finished).toEqual(104);
+    expect(states).toContain('sub/double:finished');
+    expect(states).toContain('sub/addContext:finished');
+    expect(states.indexOf('sub/addContext:finished')).toBeLessThan(states.indexOf('sub:finished'));
+  });
+
+  test('state machine as a node', async () => {
+    const machine: StateMachine<{ value: number }, number> = {
+      name: 'machine',
+      initial: 'start',
+      context: () => ({ value: 0 }),
+      nodes: {
+        start: {
+          run: async ({ rootInput }) => rootInput * 3,
+          transition: 'addOne',
+        },
+        addOne: {
+          run: async ({ input }) => input + 1,
+          transition: 'done',
+        },
+        done: {
+          final: true,
+        },
+      },
+    };
+
+    const dag: Dag<Context, number> = {
+      name: 'parent',
+      context: () => ({ ctxValue: 10 }),
+      nodes: {
+        sub: {
+          subflow: machine,
+          input: ({ rootInput }) => rootInput,
+        },
+      },
+    };
+
+    const runner = new DagRunner<Context, number, number>({ dag, input: 2 });
+    let states: string[] = [];
+    runner.on('state_machine:state', (e) => states.push(`${e.state}:${e.machineState}`));
+
+    const finished = runner.finished;
+    runner.run();
+    expect(await finished).toEqual(7);
+    expect(states).toContain('sub/start:running');
+    expect(states).toContain('sub/addOne:running');
+    expect(states).toContain('sub/done:final');
+  });
+
+  test('cancelling the parent cancels the child', async () => {
+    let childAborted = false;
+    const child: Dag<Context, undefined> = {
+      name: 'child',
+      context: () => ({ ctxValue: 100 }),
+      nodes: {
+        slow: {
+          run: ({ signal }) =>
+            new Promise((resolve) => {
+              signal.addEventListener('abort', () => {
+                childAborted = true;
+                resolve(0);
+              });
+            }),
+        },
+      },
+    };
+
+    const dag: Dag<Context, undefined> = {
+      name: 'parent',
+      context: () => ({ ctxValue: 10 }),
+      nodes: {
+        sub: {
+          subflow: child,
+        },
+      },
+    };
+
+    const runner = new DagRunner<Context, undefined, number>({ dag, input: undefined });
+    const finished = runner.finished;
+    runner.run();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    runner.cancel();
+
+    await expect(finished).rejects.toBeInstanceOf(CancelledError);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(childAborted).toBe(true);
+  });
+});
+
+describe('approval', () => {
+  let sent: number[] = [];
+  const dag: Dag<Context, number> = {
+    name: 'test',
+    context: () => ({ ctxValue: 10 }),
+    nodes: {
+      draft: {
+        run: ({ context, rootInput }) => context.ctxValue + rootInput,
+      },
+      send: {
+        parents: ['draft'],
+        requiresApproval: true,
+        run: ({ input }) => {
+          sent.push(input.draft as number);
+          return input.draft;
+        },
+      },
+    },
+  };
+
+  function waitForApproval(runner: DagRunner<Context, number, number>) {
+    return new Promise((resolve) => runner.once('dag:awaitingApproval', resolve));
+  }
+
+  test('approve with different input', async () => {
+    sent = [];
+    const runner = new DagRunner<Context, number, number>({ dag, input: 1 });
+    const awaiting = waitForApproval(runner);
+    const finished = runner.finished;
+    runner.run();
+
+    expect(await awaiting).toEqual({ sourceNode: 'send', source: 'test', input: { draft: 11 } });
+    expect(runner.runners.get('send')!.state).toBe('awaitingApproval');
+    expect(sent).toEqual([]);
+
+    await runner.approve('send', { draft: 20 });
+    expect(await finished).toBe(20);
+    expect(sent).toEqual([20]);
+  });
+
+  test('reject', async () => {
+    sent = [];
+    const runner = new DagRunner<Context, number, number>({ dag, input: 1 });
+    const awaiting = waitForApproval(runner);
+    const finished = runner.finished;
+    const running = runner.run();
+    await awaiting;
+
+    runner.reject('send', 'too rude');
+    await expect(running).rejects.toBeInstanceOf(ApprovalRejectedError);
+    await expect(finished).rejects.toBeInstanceOf(ApprovalRejectedError);
+    expect(runner.runners.get('send')!.state).toBe('error');
+    expect(sent).toEqual([]);
+    expect(() => runner.approve('send')).toThrow('Node send is not awaiting approval');
+  });
+
+  test('approving does not check the condition again', async () => {
+    sent = [];
+    const conditional: Dag<Context, number> = {
+      ...dag,
+      nodes: {
+        ...dag.nodes,
+        send: {
+          ...dag.nodes.send,
+          condition: ({ input }) => (input.draft as number) < 15,
+        },
+      },
+    };
+
+    const runner = new DagRunner<Context, number, number>({ dag: conditional, input: 1 });
+    const awaiting = waitForApproval(runner);
+    const finished = runner.finished;
+    runner.run();
+    await awaiting;
+
+    // The approver's input would fail the condition, but it already passed.
+    await runner.approve('send', { draft: 20 });
+    expect(await finished).toBe(20);
+    expect(runner.runners.get('send')!.state).toBe('finished');
+    expect(sent).toEqual([20]);
+  });
+
+  test('cancel while awaiting approval', async () => {
+    sent = [];
+    const runner = new DagRunner<Context, number, number>({ dag, input: 1 });
+    const states: string[] = [];
+    runner.on('dag:state', (e) => states.push(`${e.sourceNode}:${e.state}`));
+    const awaiting = waitForApproval(runner);
+    const finished = runner.finished;
+    runner.run().catch(() => {});
+    await awaiting;
+
+    runner.cancel();
+    await expect(finished).rejects.toBeInstanceOf(CancelledError);
+    expect(runner.runners.get('send')!.state).toBe('cancelled');
+    expect(states).toContain('send:cancelled');
+    expect(() => runner.approve('send')).toThrow('Node send is not awaiting approval');
+    expect(sent).toEqual([]);
+  });
+
+  test('approve after reviving', async () => {
+    sent = [];
+    const first = new DagRunner<Context, number, number>({ dag, input: 1 });
+    const awaiting = waitForApproval(first);
+    first.run();
+    await awaiting;
+
+    const snapshot = JSON.parse(JSON.stringify(first.serialize()));
+    expect(snapshot.nodes.send.state).toBe('awaitingApproval');
+
+    const revived = DagRunner.revive<Context, number, number>(snapshot, { dag });
+    const finished = revived.finished;
+    revived.run();
+    // Nothing runs until the node is approved.
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(sent).toEqual([]);
+
+    await revived.approve('send');
+    expect(await finished).toBe(11);
+    expect(sent).toEqual([11]);
+  });
+});
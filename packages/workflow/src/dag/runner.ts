@@ -1,11 +1,16 @@
 import { EventEmitter } from 'events';
+import type { Schema } from 'jsonschema';
 import { ChronicleClient, ChronicleClientOptions, RunContext, runStep } from '@dimfeld/chronicle';
-import type { AnyInputs, Dag, DagNodeState } from './types.js';
+import type { AnyInputs, Dag, DagApprovalRequest, DagNodeStateEvent } from './types.js';
 import { CompiledDag } from './compile.js';
-import { DagNodeRunner } from './node_runner.js';
+import { DagNodeRunner, DagNodeRunnerSnapshot, RunnerErrorResult } from './node_runner.js';
 import { getEventContext } from '@dimfeld/chronicle';
+import { CancelledError, TimeoutError } from '../errors.js';
 import { NodeResultCache } from '../cache.js';
+import { RunRecorder, RunStore } from '../run_store.js';
+import type { StateMachineStateEvent } from '../state_machine/types.js';
 import { Semaphore } from '../semaphore.js';
+import { validateSchema } from '../validation.js';
 import { Runnable, RunnableEvents } from '../runnable.js';
 import { uuidv7 } from 'uuidv7';
 
@@ -21,6 +26,8 @@ export interface DagRunnerOptions<CONTEXT extends object, ROOTINPUT, OUTPUT = un
   /** Semaphores which can be used to rate limit operations by the DAG. This accepts multiple Semaphores, which
    * can be used to provide a semaphore for global operations and another one for this particular DAG, for example. */
   semaphores?: Semaphore[];
+  /** The tenant this run belongs to. Semaphores use this to share their slots fairly between tenants. */
+  tenant?: string;
   /** A Chronicle LLM proxy client, if not inheriting it from an existing run or using the global client */
   chronicle?: ChronicleClient;
   /** A function that returns if the DAG should run nodes whenever they become ready, or wait for an external source to
@@ -32,30 +39,60 @@ export interface DagRunnerOptions<CONTEXT extends object, ROOTINPUT, OUTPUT = un
 
   /** Use this RunContext instead of finding it from the current context. */
   parentRunContext?: RunContext;
+
+  /** Record the state of the DAG to this store whenever it changes. Records are keyed by `id`. */
+  store?: RunStore;
+}
+
+export type DagRunnerStatus = 'ready' | 'running' | 'finished' | 'error' | 'cancelled';
+
+/** The saved state of a DAG run. This can be passed to `DagRunner.revive` to continue the run later. */
+export interface DagRunnerSnapshot<CONTEXT extends object, ROOTINPUT> {
+  id: string;
+  input: ROOTINPUT;
+  context: CONTEXT;
+  nodes: Record<string, DagNodeRunnerSnapshot>;
+  outputNode: DagNodeRunnerSnapshot;
 }
 
+export type DagReviveOptions<CONTEXT extends object, ROOTINPUT, OUTPUT = unknown> = Omit<
+  DagRunnerOptions<CONTEXT, ROOTINPUT, OUTPUT>,
+  'id' | 'input'
+>;
+
 type DagRunnerEvents<OUTPUT> = {
-  'dag:state': [{ sourceNode: string; source: string; state: DagNodeState }];
+  'dag:state': [DagNodeStateEvent];
+  /** A node with `requiresApproval` is waiting for `approve` or `reject`. */
+  'dag:awaitingApproval': [DagApprovalRequest];
+  /** State changes from state machines running as subflows of this DAG's nodes. */
+  'state_machine:state': [StateMachineStateEvent];
 } & RunnableEvents<OUTPUT>;
 
 export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
   extends EventEmitter<DagRunnerEvents<OUTPUT>>
   implements Runnable<OUTPUT, DagRunnerEvents<OUTPUT>>
 {
+  id: string;
   name: string;
+  status: DagRunnerStatus = 'ready';
   tags?: string[];
   info?: object;
-  context?: CONTEXT;
+  context: CONTEXT;
   runners: Map<string, DagNodeRunner<CONTEXT, ROOTINPUT, AnyInputs, any>>;
   outputNode: DagNodeRunner<CONTEXT, ROOTINPUT, AnyInputs, OUTPUT>;
   tolerateFailures: boolean;
+  timeoutMs?: number;
+  inputSchema?: Schema;
   autorun: () => boolean;
   input: ROOTINPUT;
   output: OUTPUT | undefined;
+  recorder?: RunRecorder;
+  parentRunContext?: RunContext;
   /* A promise which resolves when the entire DAG finishes or rejects on an error. */
   _finished: Promise<OUTPUT> | undefined;
 
   constructor({
+    id,
     name,
     dag,
     context,
@@ -63,14 +100,18 @@ export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
     cache,
     autorun,
     semaphores,
+    tenant,
     info,
+    store,
+    parentRunContext,
   }: DagRunnerOptions<CONTEXT, ROOTINPUT, OUTPUT>) {
     super();
     if (!(dag instanceof CompiledDag)) {
       dag = new CompiledDag(dag);
     }
 
-    this.context = context;
+    this.id = id ?? uuidv7();
+    this.context = context ?? dag.config.context();
     this.input = input;
 
     const { runners, outputNode } = dag.buildRunners({
@@ -79,6 +120,7 @@ export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
       cache,
       autorun,
       semaphores,
+      tenant,
     });
 
     this.runners = runners;
@@ -91,25 +133,59 @@ export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
       ...info,
     };
     this.tolerateFailures = dag.config.tolerateFailures ?? false;
+    this.timeoutMs = dag.config.timeoutMs;
+    this.inputSchema = dag.config.inputSchema;
+    this.parentRunContext = parentRunContext;
     this.autorun = autorun ?? (() => true);
+
+    if (store) {
+      this.recorder = new RunRecorder(store);
+      this.recorder.on('saveError', ({ error }) => this.emit('ramus:storeError', { error }));
+    }
+
+    for (let runner of this.runners.values()) {
+      runner.on('state', (e) => {
+        this.emit('dag:state', e);
+        this.save();
+      });
+      runner.on('state_machine:state', (e) => this.emit('state_machine:state', e));
+      runner.on('awaitingApproval', (e) => this.emit('dag:awaitingApproval', e));
+      runner.on('ramus:cacheError', (e) => this.emit('ramus:cacheError', e));
+      // A node can be cancelled from the inside, such as when it runs a subflow that was cancelled.
+      runner.on('cancelled', () => this.cancel());
+    }
+
+    this.outputNode.on('state', () => this.save());
   }
 
   get finished() {
     if (!this._finished) {
-      // TODO Check for if we're already resolved or errored
-      this._finished = new Promise((resolve, reject) => {
-        this.once('finish', resolve);
-        this.once('cancelled', () => {
-          reject(new Error('Cancelled'));
+      const failed = this.failedNode();
+      if (failed) {
+        this._finished = Promise.reject(failed.result.error);
+      } else if (
+        this.outputNode.state === 'finished' &&
+        this.outputNode.result?.type === 'success'
+      ) {
+        this._finished = Promise.resolve(this.outputNode.result.output);
+      } else {
+        this._finished = new Promise((resolve, reject) => {
+          this.once('finish', resolve);
+          this.once('cancelled', () => {
+            reject(new CancelledError());
+          });
+          this.once('ramus:error', (e) => reject(e.error));
         });
-        this.once('ramus:error', (e) => reject(e.error));
-      });
+      }
+
+      // The caller may not wait on this right away, so keep it from being reported as unhandled.
+      this._finished.catch(() => {});
     }
 
     return this._finished;
   }
 
-  /** Run the entire DAG to completion */
+  /** Run the entire DAG to completion. The returned promise rejects if the DAG fails, like `finished`. */
   run(): Promise<unknown> {
     return runStep(
       {
@@ -117,16 +193,21 @@ export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
         type: 'dag',
         input: this.input,
         tags: this.tags,
+        parentRunContext: this.parentRunContext,
       },
       async (eventContext) => {
+        this.setStatus('running');
+
         for (let runner of this.runners.values()) {
           runner.setRunContext(eventContext);
           if (!this.tolerateFailures) {
             runner.on('ramus:error', (e) => {
               // Make sure to emit error before we cancel, so that anything listening to both will know about the
               // error first.
+              this.setStatus('error');
               this.emit('ramus:error', e);
               this.cancel(false);
+              result.reject(e.error);
             });
           }
         }
@@ -136,23 +217,76 @@ export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
         const result = Promise.withResolvers();
 
         this.outputNode.on('ramus:error', (e) => {
+          this.setStatus('error');
           this.cancel(false);
           this.emit('ramus:error', e);
           result.reject(e.error);
         });
 
         this.outputNode.on('finish', (e) => {
+          if (this.status === 'error') {
+            // A node already failed the DAG.
+            return;
+          }
+
           this.output = e.output;
+          this.setStatus('finished');
           this.emit('finish', e.output);
           result.resolve(e);
         });
 
+        const failed = this.failedNode();
+        if (failed) {
+          // This DAG was revived after a node failed.
+          this.setStatus('error');
+          this.emit('ramus:error', { error: failed.result.error });
+          result.reject(failed.result.error);
+          return result.promise;
+        }
+
+        if (this.outputNode.state === 'finished' && this.outputNode.result?.type === 'success') {
+          // This DAG was revived after it already finished.
+          this.output = this.outputNode.result.output;
+          this.setStatus('finished');
+          this.emit('finish', this.output);
+          result.resolve(this.output);
+          return result.promise;
+        }
+
+        try {
+          validateSchema(this.inputSchema, this.input, `input for DAG ${this.name}`);
+        } catch (e) {
+          const error = e as Error;
+          this.setStatus('error');
+          this.emit('ramus:error', { error });
+          result.reject(error);
+          return result.promise;
+        }
+
+        if (this.timeoutMs) {
+          const timeoutMs = this.timeoutMs;
+          const timer = setTimeout(() => {
+            const error = new TimeoutError(timeoutMs);
+            this.setStatus('error');
+            this.emit('ramus:error', { error });
+            this.cancel(false);
+            result.reject(error);
+          }, timeoutMs);
+
+          const clear = () => clearTimeout(timer);
+          result.promise.then(clear, clear);
+        }
+
         if (this.autorun()) {
           for (let runner of this.runners.values()) {
             if (runner.readyToResume()) {
               runner.run();
             }
           }
+
+          if (this.outputNode.readyToResume()) {
+            this.outputNode.run();
+          }
         }
 
         return result.promise;
@@ -160,15 +294,111 @@ export class DagRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
     );
   }
 
+  /** Capture the state of every node in the DAG, so that it can be revived later with `DagRunner.revive`.
+   * Node inputs and outputs must be JSON-serializable for the snapshot to be stored. */
+  serialize(): DagRunnerSnapshot<CONTEXT, ROOTINPUT> {
+    return {
+      id: this.id,
+      input: this.input,
+      context: this.context,
+      nodes: Object.fromEntries(
+        [...this.runners.entries()].map(([name, runner]) => [name, runner.serialize()])
+      ),
+      outputNode: this.outputNode.serialize(),
+    };
+  }
+
+  /** Recreate a DAG runner from a snapshot. Nodes that already finished will not run again, and nodes that were
+   * running when the snapshot was taken will run again when `run` is called. */
+  static revive<CONTEXT extends object, ROOTINPUT, OUTPUT>(
+    snapshot: DagRunnerSnapshot<CONTEXT, ROOTINPUT>,
+    options: DagReviveOptions<CONTEXT, ROOTINPUT, OUTPUT>
+  ) {
+    const runner = new DagRunner<CONTEXT, ROOTINPUT, OUTPUT>({
+      ...options,
+      id: snapshot.id,
+      input: snapshot.input,
+      context: options.context ?? snapshot.context,
+    });
+
+    for (let [name, nodeSnapshot] of Object.entries(snapshot.nodes)) {
+      const node = runner.runners.get(name);
+      if (!node) {
+        throw new Error(`Snapshot contains unknown node '${name}'`);
+      }
+
+      node.restore(nodeSnapshot);
+    }
+
+    runner.outputNode.restore(snapshot.outputNode);
+    if (runner.outputNode.result?.type === 'success' && !runner.failedNode()) {
+      runner.output = runner.outputNode.result.output;
+    }
+
+    return runner;
+  }
+
+  /** Let a node with `requiresApproval` run. Values in `input` replace the matching parent outputs. The returned
+   * promise resolves once the node has run. */
+  approve(node: string, input?: AnyInputs) {
+    return this.nodeRunner(node).approve(input);
+  }
+
+  /** Fail a node with `requiresApproval` with an `ApprovalRejectedError`. This fails the DAG unless it tolerates
+   * failures. */
+  reject(node: string, reason: string) {
+    this.nodeRunner(node).reject(reason);
+  }
+
+  private nodeRunner(name: string) {
+    const runner = this.runners.get(name);
+    if (!runner) {
+      throw new Error(`Unknown node '${name}'`);
+    }
+    return runner;
+  }
+
+  /** Find a node that failed, if its failure fails the whole DAG. */
+  private failedNode() {
+    if (this.tolerateFailures) {
+      return;
+    }
+
+    const failed = [...this.runners.values()].find((r) => r.state === 'error');
+    return failed?.result?.type === 'error'
+      ? (failed as typeof failed & { result: RunnerErrorResult })
+      : undefined;
+  }
+
   cancel(emit = true) {
     for (let runner of this.runners.values()) {
       runner.cancel();
     }
+    // The output node tolerates parent errors, so it would otherwise go on to finish after a node fails.
+    this.outputNode.cancel();
 
     if (emit) {
+      this.setStatus('cancelled');
       this.emit('cancelled');
     }
   }
+
+  private setStatus(status: DagRunnerStatus) {
+    this.status = status;
+    this.save();
+  }
+
+  /** Save the current state to the run store, if there is one. */
+  private save() {
+    this.recorder?.save({
+      id: this.id,
+      type: 'dag',
+      name: this.name,
+      status: this.status,
+      state: this.serialize(),
+      updatedAt: Date.now(),
+    });
+  }
 }
 
 /** Create a run a DAG in one statement, for simple cases.*/
@@ -176,6 +406,8 @@ export async function runDag<CONTEXT extends object, INPUT, OUTPUT>(
   options: DagRunnerOptions<CONTEXT, INPUT, OUTPUT>
 ) {
   let runner = new DagRunner(options);
-  runner.run();
-  return runner.finished;
+  const finished = runner.finished;
+  // Errors are reported through `finished`.
+  runner.run().catch(() => {});
+  return finished;
 }
@@ -1,15 +1,41 @@
 import { NodeInput } from '../types.js';
+import type { RetryOptions } from '../retry.js';
+import type { StateMachine } from '../state_machine/types.js';
+import type { CompiledDag } from './compile.js';
 import { Schema } from 'jsonschema';
 
 export type DagNodeState =
   | 'waiting'
   | 'ready'
+  | 'awaitingApproval'
   | 'pendingSemaphore'
   | 'running'
+  | 'retrying'
   | 'cancelled'
+  | 'skipped'
   | 'error'
   | 'finished';
 
+export interface DagNodeStateEvent {
+  sourceNode: string;
+  source: string;
+  state: DagNodeState;
+  /** The attempt number that this state applies to. */
+  attempt: number;
+  /** For map nodes, the index of the item that this state applies to. This is omitted for the state of the
+   * node as a whole. */
+  item?: number;
+}
+
+/** Emitted when a node with `requiresApproval` is ready to run and is waiting for `DagRunner.approve` or
+ * `DagRunner.reject`. */
+export interface DagApprovalRequest {
+  sourceNode: string;
+  source: string;
+  /** The outputs of the node's parents, which the node will run with unless the approval overrides them. */
+  input: AnyInputs;
+}
+
 /** The structure passed to a DAG node when it executes. */
 export type DagNodeInput<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs> = NodeInput<
   CONTEXT,
@@ -19,12 +45,58 @@ export type DagNodeInput<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyIn
 
 export type AnyInputs = Record<string, unknown>;
 
+/** The structure passed to a DAG node's `condition` function. */
+export type DagNodeConditionInput<
+  CONTEXT extends object,
+  ROOTINPUT,
+  INPUTS extends AnyInputs,
+> = Pick<DagNodeInput<CONTEXT, ROOTINPUT, INPUTS>, 'context' | 'input' | 'rootInput'>;
+
+export interface DagNodeCacheOptions<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs> {
+  /** Calculate the cache key from the node's input. By default the key is made from the node's code, its inputs,
+   * and the entire root input, so this is useful when the node only depends on part of that. */
+  key: (input: DagNodeConditionInput<CONTEXT, ROOTINPUT, INPUTS>) => string;
+}
+
 export interface DagNode<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs, OUTPUT> {
   parents?: Array<keyof INPUTS>;
   /** If set, participate in global rate limiting of nodes with the same `semaphoreKey`. */
   semaphoreKey?: string;
+  /** How much of the semaphores' limits this node uses, such as an estimated token count for a rate limiter.
+   * Defaults to 1. */
+  semaphoreWeight?: number | ((input: DagNodeConditionInput<CONTEXT, ROOTINPUT, INPUTS>) => number);
+  /** When waiting for a semaphore, nodes with a higher priority get a slot first. Defaults to 0. */
+  priority?: number;
   /** If true, run this node even if one of its parents has an error. */
   tolerateParentErrors?: boolean;
+  /** If set, the node only runs when this returns true. Otherwise the node is marked as `skipped`, and so are
+   * any children that don't set `tolerateSkippedParents`. */
+  condition?: (
+    input: DagNodeConditionInput<CONTEXT, ROOTINPUT, INPUTS>
+  ) => boolean | Promise<boolean>;
+  /** If true, run this node even if one of its parents was skipped. The skipped parent's input will be
+   * undefined. */
+  tolerateSkippedParents?: boolean;
+  /** If true, the node pauses in the `awaitingApproval` state when it is ready to run, until `DagRunner.approve` or
+   * `DagRunner.reject` is called for it. The node's `condition` and `inputSchema` are checked before it pauses. */
+  requiresApproval?: boolean;
+  /** Retry the node when it fails. Each attempt gets its own span. */
+  retry?: RetryOptions;
+  /** Fail an attempt with a `TimeoutError` if `run` takes longer than this. The node's `signal` will abort
+   * when this happens. */
+  timeoutMs?: number;
+  /** Fail the node with a `ValidationError` if the outputs of its parents don't match this schema. The schema
+   * describes an object keyed by parent name. */
+  inputSchema?: Schema;
+  /** Fail the attempt with a `ValidationError` if the node's output doesn't match this schema. This counts as a
+   * failed attempt for `retry`. */
+  outputSchema?: Schema;
+  /** Whether to cache this node's results when the runner has a cache. Set this to false for nodes with side
+   * effects. Defaults to true. */
+  cache?: boolean | DagNodeCacheOptions<CONTEXT, ROOTINPUT, INPUTS>;
+  /** Part of the cache key for this node's results. Change this to invalidate previously cached results, such as
+   * when something the node depends on has changed without changing the node's code. */
+  cacheVersion?: string | number;
 
   tags?: string[];
 
@@ -34,17 +106,75 @@ export interface DagNode<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyIn
   run: (input: DagNodeInput<CONTEXT, ROOTINPUT, INPUTS>) => OUTPUT | Promise<OUTPUT>;
 }
 
+/** The structure passed to a map node for each item. */
+export interface DagMapNodeInput<
+  CONTEXT extends object,
+  ROOTINPUT,
+  INPUTS extends AnyInputs,
+  ITEM,
+> extends DagNodeInput<CONTEXT, ROOTINPUT, INPUTS> {
+  item: ITEM;
+  index: number;
+}
+
+/** A node which runs once for each item in the array output by one of its parents. The node's output is an
+ * array of the results, in the same order as the items. */
+export interface DagMapNode<
+  CONTEXT extends object,
+  ROOTINPUT,
+  INPUTS extends AnyInputs,
+  ITEM,
+  OUTPUT,
+> extends Omit<DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT[]>, 'run'> {
+  /** The parent whose output should be mapped over. This must also be listed in `parents`.
+   *
+   * When a map node has a `semaphoreKey`, `semaphoreWeight`, `retry`, `timeoutMs`, or `outputSchema`, they apply
+   * to each item individually. */
+  mapOver: keyof INPUTS & string;
+  /** If true, an item that fails leaves `undefined` in its place in the output, instead of failing the whole
+   * node. */
+  tolerateItemFailures?: boolean;
+
+  run: (input: DagMapNodeInput<CONTEXT, ROOTINPUT, INPUTS, ITEM>) => OUTPUT | Promise<OUTPUT>;
+}
+
+/** A node which runs another DAG or state machine, and outputs its result.
+ *
+ * Subflow nodes are only cached as a whole when they set `cache` with a `key` function, but the cache is
+ * always passed down so that the subflow's own nodes can use it. */
+export interface DagSubflowNode<
+  CONTEXT extends object,
+  ROOTINPUT,
+  INPUTS extends AnyInputs,
+  OUTPUT,
+> extends Omit<DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>, 'run'> {
+  /** The DAG or state machine to run. A state machine must reach a final state for the node to finish. */
+  subflow: Dag<any, any> | CompiledDag<any, any, OUTPUT> | StateMachine<any, any>;
+  /** Create the subflow's input. If omitted, the subflow receives this node's parent outputs as its input. */
+  input?: (input: DagNodeInput<CONTEXT, ROOTINPUT, INPUTS>) => unknown;
+}
+
+export type AnyDagNode<CONTEXT extends object, ROOTINPUT, INPUTS extends AnyInputs, OUTPUT> =
+  | DagNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>
+  | DagMapNode<CONTEXT, ROOTINPUT, INPUTS, any, any>
+  | DagSubflowNode<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>;
+
 export interface Dag<CONTEXT extends object, INPUT> {
   name: string;
   /** Build the DAG's context, if it was not supplied externally. */
   context: () => CONTEXT;
   /** The description of this DAG. This will go into the tool description if this DAG can be used as a tool. */
   description?: string;
-  /** The schema for the input data, if this DAG can be used as a tool. */
+  /** The schema for the input data. The DAG fails with a `ValidationError` if the input doesn't match. This is also
+   * used as the tool schema if this DAG can be used as a tool. */
   inputSchema?: Schema;
+  /** The schema for the DAG's output. The DAG fails with a `ValidationError` if the output doesn't match. */
+  outputSchema?: Schema;
   /** If true, keep running whatever we can when a node fails.
   When false or omitted, the entire DAG will end with an error if any node fails. */
   tolerateFailures?: boolean;
+  /** Cancel all the nodes and fail with a `TimeoutError` if the DAG takes longer than this to finish. */
+  timeoutMs?: number;
   tags?: string[];
   /** Extra info to log when running this DAG */
   info?: object;
@@ -53,11 +183,18 @@ export interface Dag<CONTEXT extends object, INPUT> {
 
 export type DagConfiguration<CONTEXT extends object, ROOTINPUT> = Record<
   string,
-  DagNode<CONTEXT, ROOTINPUT, AnyInputs, unknown>
+  AnyDagNode<CONTEXT, ROOTINPUT, AnyInputs, unknown>
 >;
 
-export type DagOutput<NODE> = NODE extends DagNode<any, any, any, infer OUTPUT> ? OUTPUT : never;
+export type DagOutput<NODE> =
+  NODE extends DagMapNode<any, any, any, any, infer OUTPUT>
+    ? OUTPUT[]
+    : NODE extends DagNode<any, any, any, infer OUTPUT>
+      ? OUTPUT
+      : NODE extends DagSubflowNode<any, any, any, infer OUTPUT>
+        ? OUTPUT
+        : never;
 
-export type DagInputs<T extends Record<string, DagNode<any, any, any, any>>> = {
+export type DagInputs<T extends Record<string, AnyDagNode<any, any, any, any>>> = {
   [k in keyof T]: DagOutput<T[k]>;
 };
@@ -5,3 +5,88 @@ export class CancelledError extends Error {
     super('Cancelled');
   }
 }
+
+export class TimeoutError extends Error {
+  name = 'TimeoutError';
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** An event was sent to a state machine that does not list it in its `events`. */
+export class UnknownEventError extends Error {
+  name = 'UnknownEventError';
+  eventType: string;
+
+  constructor(eventType: string) {
+    super(`Unknown event ${eventType}`);
+    this.eventType = eventType;
+  }
+}
+
+/** A DAG node with `requiresApproval` was rejected. */
+export class ApprovalRejectedError extends Error {
+  name = 'ApprovalRejectedError';
+  node: string;
+  reason: string;
+
+  constructor(node: string, reason: string) {
+    super(`Node ${node} was rejected: ${reason}`);
+    this.node = node;
+    this.reason = reason;
+  }
+}
+
+/** A single problem found when validating a value against a schema. */
+export interface ValidationIssue {
+  /** The path to the invalid value, such as `items[0].name`. This is empty when the problem is with the value as a
+   * whole. */
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  name = 'ValidationError';
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    const details = issues
+      .map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message))
+      .join('; ');
+    super(`${message}: ${details}`);
+    this.issues = issues;
+  }
+
+  /** The paths of all the invalid values. */
+  get paths() {
+    return this.issues.map((issue) => issue.path);
+  }
+}
+
+/** A plain-object version of an Error, suitable for JSON serialization. */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export function serializeError(error: Error): SerializedError {
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+}
+
+/** Recreate an Error from its serialized form. The class of the original error is not preserved, but the name is. */
+export function deserializeError(error: SerializedError): Error {
+  const e = new Error(error.message);
+  e.name = error.name;
+  if (error.stack) {
+    e.stack = error.stack;
+  }
+  return e;
+}
@@ -1,9 +1,17 @@
 export { CompiledDag } from './dag/compile.js';
+export * from './dag/diagram.js';
 export { DagNodeRunner } from './dag/node_runner.js';
 export * from './dag/runner.js';
 export type * from './dag/types.js';
+export * from './state_machine/index.js';
 
 export * from './cache.js';
 export * from './chat.js';
+export * from './errors.js';
+export * from './rate_limiter.js';
+export * from './retry.js';
+export * from './run_store.js';
 export * from './runnable.js';
 export * from './semaphore.js';
+export * from './tool.js';
+export * from './validation.js';
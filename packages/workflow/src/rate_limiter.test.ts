@@ -0,0 +1,144 @@
+import { expect, test } from 'bun:test';
+import { CancelledError, TimeoutError } from './errors.js';
+import { RateLimiter } from './rate_limiter.js';
+import { LocalSemaphore, acquireSemaphores } from './semaphore.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('allows up to the limit immediately', async () => {
+  const limiter = new RateLimiter({ key: { limit: 3, windowMs: 1000 } });
+
+  let acquired = 0;
+  for (let i = 0; i < 4; i++) {
+    limiter.acquire('key').then(() => acquired++);
+  }
+
+  await sleep(10);
+  expect(acquired).toBe(3);
+});
+
+test('refills over the window', async () => {
+  const limiter = new RateLimiter({ key: { limit: 2, windowMs: 100 } });
+
+  let acquired = 0;
+  for (let i = 0; i < 3; i++) {
+    limiter.acquire('key').then(() => acquired++);
+  }
+
+  await sleep(10);
+  expect(acquired).toBe(2);
+
+  // One more slot refills after 50ms.
+  await sleep(60);
+  expect(acquired).toBe(3);
+});
+
+test('weighted acquires', async () => {
+  const limiter = new RateLimiter({ tokens: { limit: 100, windowMs: 100 } });
+
+  const order: string[] = [];
+  limiter.acquire('tokens', { weight: 80 }).then(() => order.push('a'));
+  limiter.acquire('tokens', { weight: 50 }).then(() => order.push('b'));
+  // This one would fit, but waits its turn behind `b`.
+  limiter.acquire('tokens', { weight: 10 }).then(() => order.push('c'));
+
+  await sleep(10);
+  expect(order).toEqual(['a']);
+
+  await sleep(70);
+  expect(order).toEqual(['a', 'b', 'c']);
+});
+
+test('weight larger than the limit waits for a full bucket', async () => {
+  const limiter = new RateLimiter({ tokens: { limit: 100, windowMs: 100 } });
+
+  let acquired = false;
+  await limiter.acquire('tokens', { weight: 10 });
+  limiter.acquire('tokens', { weight: 150 }).then(() => (acquired = true));
+
+  await sleep(5);
+  expect(acquired).toBe(false);
+
+  await sleep(20);
+  expect(acquired).toBe(true);
+
+  // The bucket is now in debt, so even a small acquire has to wait.
+  let small = false;
+  limiter.acquire('tokens', { weight: 1 }).then(() => (small = true));
+  await sleep(20);
+  expect(small).toBe(false);
+  await sleep(50);
+  expect(small).toBe(true);
+});
+
+test('keys without a limit are not limited', async () => {
+  const limiter = new RateLimiter({});
+  for (let i = 0; i < 100; i++) {
+    await limiter.acquire('key', { weight: 1000 });
+  }
+});
+
+test('combined with a concurrency limit', async () => {
+  const limiter = new RateLimiter({ key: { limit: 100, windowMs: 1000 } });
+  const semaphore = new LocalSemaphore({ key: 1 });
+
+  const release = await acquireSemaphores([limiter, semaphore], 'key', { weight: 60 });
+  expect(semaphore.counts.get('key')?.current).toBe(1);
+
+  let acquired = false;
+  acquireSemaphores([limiter, semaphore], 'key', { weight: 30 }).then(() => (acquired = true));
+  await sleep(10);
+  // Blocked by the concurrency limit, even though the rate limit has room.
+  expect(acquired).toBe(false);
+
+  await release();
+  await sleep(10);
+  expect(acquired).toBe(true);
+  expect(limiter.buckets.get('key')?.available).toBeLessThan(20);
+});
+
+test('higher priority waiters go first', async () => {
+  const limiter = new RateLimiter({ key: { limit: 1, windowMs: 20 } });
+  await limiter.acquire('key');
+
+  const order: string[] = [];
+  await Promise.all([
+    limiter.acquire('key', { priority: -1 }).then(() => order.push('low')),
+    limiter.acquire('key').then(() => order.push('normal')),
+    limiter.acquire('key', { priority: 10 }).then(() => order.push('high')),
+  ]);
+  expect(order).toEqual(['high', 'normal', 'low']);
+});
+
+test('acquire timeout', async () => {
+  const limiter = new RateLimiter({ tokens: { limit: 100, windowMs: 1000 } });
+  await limiter.acquire('tokens', { weight: 100 });
+
+  await expect(limiter.acquire('tokens', { weight: 50, timeoutMs: 5 })).rejects.toBeInstanceOf(
+    TimeoutError
+  );
+  expect(limiter.buckets.get('tokens')?.pending.length).toBe(0);
+});
+
+test('acquire with abort signal', async () => {
+  const limiter = new RateLimiter({ tokens: { limit: 100, windowMs: 100 } });
+  await limiter.acquire('tokens', { weight: 100 });
+
+  const controller = new AbortController();
+  const order: string[] = [];
+  const large = limiter.acquire('tokens', { weight: 90, signal: controller.signal });
+  const small = limiter.acquire('tokens', { weight: 10 }).then(() => order.push('small'));
+
+  controller.abort(new CancelledError());
+  await expect(large).rejects.toBeInstanceOf(CancelledError);
+  expect(limiter.buckets.get('tokens')?.pending.length).toBe(1);
+
+  // The waiter behind the cancelled one no longer has to wait for its weight.
+  await sleep(30);
+  expect(order).toEqual(['small']);
+
+  // Already aborted
+  await expect(limiter.acquire('tokens', { signal: controller.signal })).rejects.toBeInstanceOf(
+    CancelledError
+  );
+});
@@ -0,0 +1,166 @@
+import { CancelledError, TimeoutError } from './errors.js';
+import type { Semaphore, SemaphoreAcquireOptions } from './semaphore.js';
+
+export interface RateLimit {
+  /** How much can be used per window, such as a number of requests or tokens. */
+  limit: number;
+  /** The length of the window, such as 60000 for a per-minute limit. */
+  windowMs: number;
+}
+
+interface Waiter {
+  weight: number;
+  priority: number;
+  resolve: () => void;
+}
+
+interface Bucket extends RateLimit {
+  available: number;
+  updatedAt: number;
+  /** Sorted by priority, and in arrival order within a priority. */
+  pending: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** A token bucket rate limiter. Each key's bucket holds up to `limit` and refills continuously, reaching the full
+ * limit over `windowMs`.
+ *
+ * This implements the `Semaphore` interface so that it can be passed in the `semaphores` array alongside
+ * concurrency limits. Acquisitions use up their `weight` and `release` does nothing, since the bucket refills
+ * over time instead. */
+export class RateLimiter implements Semaphore {
+  buckets = new Map<string, Bucket>();
+
+  constructor(limits: Record<string, RateLimit>) {
+    Object.entries(limits).forEach(([key, limit]) => this.setLimit(key, limit));
+  }
+
+  /** Update the limit for a key. */
+  setLimit(key: string, { limit, windowMs }: RateLimit) {
+    let bucket = this.buckets.get(key);
+    if (bucket) {
+      this.refill(bucket);
+      bucket.limit = limit;
+      bucket.windowMs = windowMs;
+      bucket.available = Math.min(bucket.available, limit);
+      this.processPending(bucket);
+    } else {
+      this.buckets.set(key, {
+        limit,
+        windowMs,
+        available: limit,
+        updatedAt: Date.now(),
+        pending: [],
+      });
+    }
+  }
+
+  /** Wait until the key's bucket has room for `weight`, and use it.
+   *
+   * A weight larger than the limit waits for a full bucket and then leaves it in debt, so that large requests still
+   * run but delay the ones after them. Waiters with a higher `priority` go first, and `tenant` is not used. */
+  async acquire(key: string, options?: SemaphoreAcquireOptions) {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      // No limit for this key.
+      return;
+    }
+
+    if (options?.signal?.aborted) {
+      throw options.signal.reason ?? new CancelledError();
+    }
+
+    const weight = options?.weight ?? 1;
+    this.refill(bucket);
+    if (!bucket.pending.length && this.take(bucket, weight)) {
+      return;
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const signal = options?.signal;
+      const timeoutMs = options?.timeoutMs;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const fail = (error: unknown) => {
+        const index = bucket.pending.indexOf(waiter);
+        if (index >= 0) {
+          bucket.pending.splice(index, 1);
+          cleanup();
+          reject(error);
+          // The next waiter may fit now.
+          this.processPending(bucket);
+        }
+      };
+
+      const onAbort = () => fail(signal?.reason ?? new CancelledError());
+
+      const waiter: Waiter = {
+        weight,
+        priority: options?.priority ?? 0,
+        resolve: () => {
+          cleanup();
+          resolve();
+        },
+      };
+
+      const index = bucket.pending.findIndex((w) => w.priority < waiter.priority);
+      bucket.pending.splice(index === -1 ? bucket.pending.length : index, 0, waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => fail(new TimeoutError(timeoutMs)), timeoutMs);
+      }
+
+      this.processPending(bucket);
+    });
+  }
+
+  release(key: string) {
+    // Nothing to do, since the bucket refills on its own.
+  }
+
+  /** Run a function as soon as the key's rate limit allows it */
+  async run<T>(key: string, f: () => Promise<T>, options?: SemaphoreAcquireOptions): Promise<T> {
+    await this.acquire(key, options);
+    return f();
+  }
+
+  private refill(bucket: Bucket) {
+    const now = Date.now();
+    const refilled = ((now - bucket.updatedAt) * bucket.limit) / bucket.windowMs;
+    bucket.available = Math.min(bucket.limit, bucket.available + refilled);
+    bucket.updatedAt = now;
+  }
+
+  private take(bucket: Bucket, weight: number) {
+    if (bucket.available < Math.min(weight, bucket.limit)) {
+      return false;
+    }
+
+    bucket.available -= weight;
+    return true;
+  }
+
+  /** Resolve waiting acquisitions in order, and schedule a check for when the next one will fit. */
+  private processPending(bucket: Bucket) {
+    if (bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = undefined;
+    }
+
+    this.refill(bucket);
+    while (bucket.pending.length && this.take(bucket, bucket.pending[0].weight)) {
+      bucket.pending.shift()!.resolve();
+    }
+
+    if (bucket.pending.length) {
+      const needed = Math.min(bucket.pending[0].weight, bucket.limit) - bucket.available;
+      const delay = Math.ceil((needed * bucket.windowMs) / bucket.limit);
+      bucket.timer = setTimeout(() => this.processPending(bucket), delay);
+    }
+  }
+}
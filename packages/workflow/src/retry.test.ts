@@ -0,0 +1,39 @@
+import { expect, test } from 'bun:test';
+import { retryDelay, shouldRetry } from './retry.js';
+import { CancelledError } from './errors.js';
+
+test('exponential backoff without jitter', () => {
+  const options = { maxAttempts: 10, initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+  expect(retryDelay(options, 1)).toBe(100);
+  expect(retryDelay(options, 2)).toBe(200);
+  expect(retryDelay(options, 3)).toBe(400);
+  expect(retryDelay(options, 4)).toBe(800);
+  expect(retryDelay(options, 5)).toBe(1000);
+});
+
+test('custom backoff factor', () => {
+  const options = { maxAttempts: 10, initialDelayMs: 10, backoffFactor: 3, jitter: false };
+  expect(retryDelay(options, 3)).toBe(90);
+});
+
+test('jitter stays within the backoff', () => {
+  const options = { maxAttempts: 10, initialDelayMs: 100 };
+  for (let i = 0; i < 100; i++) {
+    const delay = retryDelay(options, 2);
+    expect(delay).toBeGreaterThanOrEqual(0);
+    expect(delay).toBeLessThanOrEqual(200);
+  }
+});
+
+test('shouldRetry', () => {
+  const error = new Error('failed');
+  expect(shouldRetry(undefined, error, 1)).toBe(false);
+  expect(shouldRetry({ maxAttempts: 3 }, error, 1)).toBe(true);
+  expect(shouldRetry({ maxAttempts: 3 }, error, 2)).toBe(true);
+  expect(shouldRetry({ maxAttempts: 3 }, error, 3)).toBe(false);
+  expect(shouldRetry({ maxAttempts: 3 }, new CancelledError(), 1)).toBe(false);
+
+  const retryable = (e: Error) => e.message !== 'fatal';
+  expect(shouldRetry({ maxAttempts: 3, retryable }, error, 1)).toBe(true);
+  expect(shouldRetry({ maxAttempts: 3, retryable }, new Error('fatal'), 1)).toBe(false);
+});
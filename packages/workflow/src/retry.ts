@@ -0,0 +1,40 @@
+import { CancelledError } from './errors.js';
+
+export interface RetryOptions {
+  /** The maximum number of attempts, including the first one. */
+  maxAttempts: number;
+  /** How long to wait before the first retry. Defaults to 1000ms. */
+  initialDelayMs?: number;
+  /** The longest to wait between attempts. Defaults to 30000ms. */
+  maxDelayMs?: number;
+  /** Multiply the delay by this much after each attempt. Defaults to 2. */
+  backoffFactor?: number;
+  /** Randomize each delay between zero and the calculated backoff, so that many failures at once don't all retry
+   * at the same time. Defaults to true. */
+  jitter?: boolean;
+  /** Return true if the error should be retried. If omitted, all errors except cancellations are retried. */
+  retryable?: (error: Error, attempt: number) => boolean;
+}
+
+/** Return true if another attempt should be made after `attempt` failed with `error`. */
+export function shouldRetry(options: RetryOptions | undefined, error: Error, attempt: number) {
+  if (!options || attempt >= options.maxAttempts || error instanceof CancelledError) {
+    return false;
+  }
+
+  return options.retryable?.(error, attempt) ?? true;
+}
+
+/** Calculate how long to wait before retrying, after `attempt` failed. */
+export function retryDelay(options: RetryOptions, attempt: number) {
+  const initial = options.initialDelayMs ?? 1000;
+  const max = options.maxDelayMs ?? 30000;
+  const factor = options.backoffFactor ?? 2;
+
+  const delay = Math.min(initial * Math.pow(factor, attempt - 1), max);
+  if (options.jitter === false) {
+    return delay;
+  }
+
+  return Math.random() * delay;
+}
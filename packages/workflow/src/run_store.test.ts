@@ -0,0 +1,121 @@
+import { expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import type { Database as BetterSqliteDatabase } from 'better-sqlite3';
+import {
+  RunRecord,
+  RunRecorder,
+  RunStore,
+  betterSqliteRunStore,
+  memoryRunStore,
+} from './run_store.js';
+
+function record(id: string, updatedAt: number, rest: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id,
+    type: 'dag',
+    name: 'test',
+    status: 'running',
+    state: { value: id },
+    updatedAt,
+    ...rest,
+  };
+}
+
+// bun:sqlite has the same API as better-sqlite3 for the parts that the store uses.
+const stores: Array<[string, () => RunStore]> = [
+  ['memory', memoryRunStore],
+  [
+    'sqlite',
+    () => betterSqliteRunStore(new Database(':memory:') as unknown as BetterSqliteDatabase),
+  ],
+];
+
+for (let [name, createStore] of stores) {
+  test(`${name} store save and get`, async () => {
+    const store = createStore();
+    const run = record('a', 1);
+    await store.save(run);
+
+    // Changes after saving should not affect the stored record.
+    run.status = 'finished';
+    expect(await store.get('a')).toEqual(record('a', 1));
+
+    await store.save(run);
+    expect((await store.get('a'))?.status).toEqual('finished');
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  test(`${name} store list`, async () => {
+    const store = createStore();
+    await store.save(record('a', 1));
+    await store.save(record('b', 3, { type: 'state_machine' }));
+    await store.save(record('c', 2, { status: 'finished' }));
+
+    expect((await store.list()).map((r) => r.id)).toEqual(['b', 'c', 'a']);
+    expect((await store.list({ type: 'dag' })).map((r) => r.id)).toEqual(['c', 'a']);
+    expect((await store.list({ status: 'finished' })).map((r) => r.id)).toEqual(['c']);
+    expect((await store.list({ type: 'dag', status: 'running' })).map((r) => r.id)).toEqual(['a']);
+  });
+}
+
+test('recorder saves in order', async () => {
+  let saved: string[] = [];
+  const recorder = new RunRecorder({
+    save: async (run) => {
+      // The first write is slower than the second one.
+      await new Promise((resolve) => setTimeout(resolve, run.status === 'running' ? 10 : 0));
+      saved.push(run.status);
+    },
+    get: () => undefined,
+    list: () => [],
+    delete: () => {},
+  });
+
+  recorder.save(record('a', 1));
+  recorder.save(record('a', 2, { status: 'finished' }));
+  await recorder.flush();
+
+  expect(saved).toEqual(['running', 'finished']);
+});
+
+test('recorder survives store errors', async () => {
+  const store = memoryRunStore();
+  let fail = true;
+  const recorder = new RunRecorder({
+    ...store,
+    save: (run) => {
+      if (fail) {
+        fail = false;
+        throw new Error('write failed');
+      }
+      return store.save(run);
+    },
+  });
+
+  let errors: string[] = [];
+  recorder.on('saveError', ({ run, error }) => errors.push(`${run.status}: ${error.message}`));
+
+  recorder.save(record('a', 1));
+  recorder.save(record('a', 2, { status: 'finished' }));
+  await recorder.flush();
+
+  expect(errors).toEqual(['running: write failed']);
+  expect((await store.get('a'))?.status).toEqual('finished');
+});
+
+test('recorder reports records that cannot be converted to JSON', async () => {
+  const store = memoryRunStore();
+  const recorder = new RunRecorder(store);
+
+  let errors: string[] = [];
+  recorder.on('saveError', ({ run }) => errors.push(run.status));
+
+  expect(() => recorder.save(record('a', 1, { state: { output: 1n } }))).not.toThrow();
+  recorder.save(record('a', 2, { status: 'finished' }));
+  await recorder.flush();
+
+  expect(errors).toEqual(['running']);
+  expect((await store.get('a'))?.status).toEqual('finished');
+});
@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import type { Database } from 'better-sqlite3';
+
+export type RunType = 'dag' | 'state_machine';
+
+/** The saved state of a DAG or state machine run. */
+export interface RunRecord {
+  /** The runner's `id` */
+  id: string;
+  type: RunType;
+  name: string;
+  /** The overall status of the run, such as 'running' or 'finished' */
+  status: string;
+  /** The serialized state of the runner. For DAGs this is a `DagRunnerSnapshot`, and for state machines a
+   * `StateMachineRunnerSnapshot`. */
+  state: unknown;
+  /** A millisecond timestamp of when this record was last saved. */
+  updatedAt: number;
+}
+
+export interface RunStoreListOptions {
+  type?: RunType;
+  status?: string;
+}
+
+/** A store which records the state of runs, so that they can be inspected and resumed later. */
+export interface RunStore {
+  save: (run: RunRecord) => void | Promise<void>;
+  get: (id: string) => RunRecord | undefined | Promise<RunRecord | undefined>;
+  /** List runs, most recently updated first. */
+  list: (options?: RunStoreListOptions) => RunRecord[] | Promise<RunRecord[]>;
+  delete: (id: string) => void | Promise<void>;
+}
+
+interface RunRow {
+  id: string;
+  type: RunType;
+  name: string;
+  status: string;
+  state: string;
+  updated_at: number;
+}
+
+function rowToRecord(row: RunRow): RunRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    name: row.name,
+    status: row.status,
+    state: JSON.parse(row.state),
+    updatedAt: row.updated_at,
+  };
+}
+
+/** A run store that persists data to a SQLite Database. This adds a `ramus_runs` table to the database */
+export function betterSqliteRunStore(db: Database): RunStore {
+  db.exec(
+    'CREATE TABLE IF NOT EXISTS ramus_runs (id TEXT PRIMARY KEY, type TEXT NOT NULL, name TEXT NOT NULL, status TEXT NOT NULL, state TEXT, updated_at int)'
+  );
+
+  return {
+    save: (run: RunRecord) => {
+      db.prepare(
+        `INSERT OR REPLACE INTO ramus_runs (id, type, name, status, state, updated_at) VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(run.id, run.type, run.name, run.status, JSON.stringify(run.state), run.updatedAt);
+    },
+    get: (id: string) => {
+      const row = db.prepare<unknown[], RunRow>(`SELECT * FROM ramus_runs WHERE id = ?`).get(id);
+      return row ? rowToRecord(row) : undefined;
+    },
+    list: (options?: RunStoreListOptions) => {
+      let conditions: string[] = [];
+      let args: string[] = [];
+      if (options?.type) {
+        conditions.push('type = ?');
+        args.push(options.type);
+      }
+
+      if (options?.status) {
+        conditions.push('status = ?');
+        args.push(options.status);
+      }
+
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+      return db
+        .prepare<unknown[], RunRow>(`SELECT * FROM ramus_runs ${where} ORDER BY updated_at DESC`)
+        .all(...args)
+        .map(rowToRecord);
+    },
+    delete: (id: string) => {
+      db.prepare(`DELETE FROM ramus_runs WHERE id = ?`).run(id);
+    },
+  };
+}
+
+/** A run store that holds the data in memory. */
+export function memoryRunStore(): RunStore {
+  const runs = new Map<string, RunRecord>();
+  return {
+    save: (run: RunRecord) => {
+      // Round-trip through JSON so that later changes to the runner don't leak into the stored record.
+      runs.set(run.id, JSON.parse(JSON.stringify(run)));
+    },
+    get: (id: string) => runs.get(id),
+    list: (options?: RunStoreListOptions) =>
+      [...runs.values()]
+        .filter(
+          (run) =>
+            (!options?.type || run.type === options.type) &&
+            (!options?.status || run.status === options.status)
+        )
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    delete: (id: string) => {
+      runs.delete(id);
+    },
+  };
+}
+
+/** Save records to a store one at a time, so that a slow write can't overwrite a newer one. A failed write, or a
+ * record that can't be converted to JSON, emits `saveError`, and later writes still happen. */
+export class RunRecorder extends EventEmitter<{ saveError: [{ run: RunRecord; error: Error }] }> {
+  store: RunStore;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(store: RunStore) {
+    super();
+    this.store = store;
+  }
+
+  save(run: RunRecord) {
+    let record: RunRecord;
+    try {
+      // Capture the state now, since the runner may change it before the write happens.
+      record = JSON.parse(JSON.stringify(run));
+    } catch (e) {
+      // Something in the run, such as a BigInt output, can't be stored. This shouldn't fail the run itself.
+      this.emit('saveError', { run, error: e as Error });
+      return this.pending;
+    }
+
+    this.pending = this.pending
+      .then(() => this.store.save(record))
+      .catch((e) => {
+        this.emit('saveError', { run: record, error: e as Error });
+      });
+    return this.pending;
+  }
+
+  /** Wait for all pending writes to finish. */
+  flush() {
+    return this.pending;
+  }
+}
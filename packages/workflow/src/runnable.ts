@@ -5,6 +5,10 @@ export type RunnableEvents<OUTPUT> = {
   // We use this instead of 'error' because an unhandled 'error' emit will crash the process, but we have multiple ways
   // of handling errors so don't necessarily need the user to handle 'error'.
   'ramus:error': [{ error: Error; fatal?: boolean }];
+  /** Saving the run to its run store failed. The run keeps going. */
+  'ramus:storeError': [{ error: Error }];
+  /** Writing the output of `node` to the cache failed. The run keeps going. */
+  'ramus:cacheError': [{ node: string; error: Error }];
   finish: [OUTPUT];
 } & Record<string, any[]>;
 
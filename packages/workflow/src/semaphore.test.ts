@@ -1,5 +1,6 @@
 import { expect, test } from 'bun:test';
 import { LocalSemaphore } from './semaphore.js';
+import { CancelledError, TimeoutError } from './errors.js';
 
 test('run without wait', async () => {
   let semaphore = new LocalSemaphore({ key: 1 });
@@ -70,3 +71,87 @@ test('extra release leaves count at 0', async () => {
   semaphore.release('key');
   expect(semaphore.counts.get('key')?.current).toBe(0);
 });
+
+test('higher priority waiters go first', async () => {
+  let semaphore = new LocalSemaphore({ key: 1 });
+  await semaphore.acquire('key');
+
+  let order: string[] = [];
+  let tasks = [
+    semaphore.run('key', async () => order.push('low'), { priority: -1 }),
+    semaphore.run('key', async () => order.push('normal')),
+    semaphore.run('key', async () => order.push('high'), { priority: 10 }),
+  ];
+
+  semaphore.release('key');
+  await Promise.all(tasks);
+  expect(order).toEqual(['high', 'normal', 'low']);
+});
+
+test('tenants take turns', async () => {
+  let semaphore = new LocalSemaphore({ key: 1 });
+  await semaphore.acquire('key');
+
+  let order: string[] = [];
+  let tasks = [
+    ...Array.from({ length: 3 }, (_, i) =>
+      semaphore.run('key', async () => order.push(`a${i}`), { tenant: 'a' })
+    ),
+    ...Array.from({ length: 2 }, (_, i) =>
+      semaphore.run('key', async () => order.push(`b${i}`), { tenant: 'b' })
+    ),
+  ];
+
+  semaphore.release('key');
+  await Promise.all(tasks);
+  expect(order).toEqual(['a0', 'b0', 'a1', 'b1', 'a2']);
+});
+
+test('acquire timeout', async () => {
+  let semaphore = new LocalSemaphore({ key: 1 });
+  await semaphore.acquire('key');
+
+  await expect(semaphore.acquire('key', { timeoutMs: 5 })).rejects.toBeInstanceOf(TimeoutError);
+  expect(semaphore.counts.get('key')?.pending.length).toBe(0);
+
+  // The timed out waiter doesn't take the slot when it's released.
+  semaphore.release('key');
+  expect(semaphore.counts.get('key')?.current).toBe(0);
+});
+
+test('acquire with abort signal', async () => {
+  let semaphore = new LocalSemaphore({ key: 1 });
+  await semaphore.acquire('key');
+
+  let controller = new AbortController();
+  let waiting = semaphore.acquire('key', { signal: controller.signal });
+  controller.abort(new CancelledError());
+  await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+  expect(semaphore.counts.get('key')?.pending.length).toBe(0);
+
+  // Already aborted
+  await expect(semaphore.acquire('key', { signal: controller.signal })).rejects.toBeInstanceOf(
+    CancelledError
+  );
+});
+
+test('stats', async () => {
+  let semaphore = new LocalSemaphore({ key: 1, other: 2 });
+  await semaphore.acquire('key');
+  let waiting = semaphore.acquire('key');
+
+  let stats = semaphore.stats();
+  expect(stats.key).toMatchObject({ limit: 1, current: 1, pending: 1 });
+  expect(stats.other).toMatchObject({ limit: 2, current: 0, pending: 0 });
+  expect(stats.key.waits.count).toBe(1);
+
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  semaphore.release('key');
+  await waiting;
+
+  let waits = semaphore.stats().key.waits;
+  expect(waits.count).toBe(2);
+  expect(waits.maxMs).toBeGreaterThanOrEqual(15);
+  // One acquisition didn't wait, and the other waited between 10 and 100ms.
+  expect(waits.buckets).toEqual([1, 0, 1, 0, 0, 0, 0]);
+});
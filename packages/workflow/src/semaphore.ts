@@ -1,22 +1,200 @@
+import * as opentelemetry from '@opentelemetry/api';
+import { CancelledError, TimeoutError } from './errors.js';
+
+export interface SemaphoreAcquireOptions {
+  /** How much of the limit this acquisition uses, such as the estimated number of tokens for a request. Rate limiters
+   * use this, while concurrency limits like `LocalSemaphore` count each acquisition as one. Defaults to 1. */
+  weight?: number;
+  /** Waiters with a higher priority get a slot first. Defaults to 0. */
+  priority?: number;
+  /** Waiters with the same priority take turns by tenant, so that one tenant with a lot of queued work can't starve
+   * the others. */
+  tenant?: string;
+  /** Stop waiting when this signal aborts. The acquisition rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /** Reject with a `TimeoutError` if a slot isn't available within this long. */
+  timeoutMs?: number;
+}
+
 export interface Semaphore {
-  acquire(key: string): Promise<void>;
+  acquire(key: string, options?: SemaphoreAcquireOptions): Promise<void>;
   release(key: string): void | Promise<void>;
   run<T>(key: string, f: () => Promise<T>): Promise<T>;
 }
 
+interface Waiter {
+  priority: number;
+  tenant: string;
+  /** Increases with each waiter, to keep FIFO order within a tenant. */
+  seq: number;
+  resolve: () => void;
+}
+
+/** The upper bounds, in milliseconds, of the wait time histogram buckets. */
+export const SEMAPHORE_WAIT_BUCKETS = [0, 10, 100, 1000, 10000, 60000];
+
+export interface SemaphoreWaitHistogram {
+  count: number;
+  totalMs: number;
+  maxMs: number;
+  /** The number of waits in each bucket. `buckets[i]` counts the waits no longer than `SEMAPHORE_WAIT_BUCKETS[i]`
+   * and longer than the previous bucket, and the last entry counts the waits longer than all the bounds. */
+  buckets: number[];
+}
+
+export interface SemaphoreKeyStats {
+  limit: number;
+  current: number;
+  pending: number;
+  /** How long acquisitions waited for a slot, including those that didn't have to wait. */
+  waits: SemaphoreWaitHistogram;
+}
+
 interface SemaphoreClass {
   limit: number;
   current: number;
-  pending: Array<() => void>;
+  pending: Waiter[];
+  /** When each tenant was last given a slot, using the waiter sequence numbers. */
+  lastServed: Map<string, number>;
+  waits: SemaphoreWaitHistogram;
+}
+
+export interface LocalSemaphoreOptions {
+  /** A name for this semaphore, added to its metrics to tell it apart from other semaphores. */
+  name?: string;
+}
+
+function semaphoreClass(limit: number): SemaphoreClass {
+  return {
+    limit,
+    current: 0,
+    pending: [],
+    lastServed: new Map(),
+    waits: {
+      count: 0,
+      totalMs: 0,
+      maxMs: 0,
+      buckets: new Array(SEMAPHORE_WAIT_BUCKETS.length + 1).fill(0),
+    },
+  };
+}
+
+let metrics:
+  | {
+      waitTime: opentelemetry.Histogram;
+      semaphores: Set<WeakRef<LocalSemaphore>>;
+      collected: FinalizationRegistry<WeakRef<LocalSemaphore>>;
+    }
+  | undefined;
+
+/** Set up the OpenTelemetry instruments when the first semaphore is created. The meter is taken from the global
+ * MeterProvider at that point, so an application must register its MeterProvider before creating any semaphores.
+ * The gauges observe every live semaphore through one callback, without keeping any of them from being garbage
+ * collected. */
+function semaphoreMetrics() {
+  if (metrics) {
+    return metrics;
+  }
+
+  const meter = opentelemetry.metrics.getMeter('ramus');
+  const semaphores = new Set<WeakRef<LocalSemaphore>>();
+  // Drop semaphores once they're collected, since the callback below only runs when a metric reader is set up.
+  const collected = new FinalizationRegistry<WeakRef<LocalSemaphore>>((ref) =>
+    semaphores.delete(ref)
+  );
+  const current = meter.createObservableGauge('ramus.semaphore.current', {
+    description: 'The number of slots in use for a semaphore key',
+  });
+  const limit = meter.createObservableGauge('ramus.semaphore.limit', {
+    description: 'The number of slots for a semaphore key',
+  });
+  const pending = meter.createObservableGauge('ramus.semaphore.pending', {
+    description: 'The number of acquisitions waiting for a semaphore key',
+  });
+
+  meter.addBatchObservableCallback(
+    (result) => {
+      for (const ref of semaphores) {
+        const semaphore = ref.deref();
+        if (!semaphore) {
+          semaphores.delete(ref);
+          continue;
+        }
+
+        for (const [key, stats] of Object.entries(semaphore.stats())) {
+          const attributes = semaphore.metricAttributes(key);
+          result.observe(current, stats.current, attributes);
+          result.observe(limit, stats.limit, attributes);
+          result.observe(pending, stats.pending, attributes);
+        }
+      }
+    },
+    [current, limit, pending]
+  );
+
+  metrics = {
+    waitTime: meter.createHistogram('ramus.semaphore.wait_time', {
+      description: 'How long acquisitions waited for a semaphore slot',
+      unit: 'ms',
+    }),
+    semaphores,
+    collected,
+  };
+  return metrics;
 }
 
 export class LocalSemaphore implements Semaphore {
   counts = new Map<string, SemaphoreClass>();
+  name?: string;
+  private seq = 0;
 
-  constructor(limits: Record<string, number>) {
+  constructor(limits: Record<string, number>, options?: LocalSemaphoreOptions) {
+    this.name = options?.name;
     Object.entries(limits).forEach(([key, limit]) => {
-      this.counts.set(key, { limit, current: 0, pending: [] });
+      this.counts.set(key, semaphoreClass(limit));
     });
+
+    const { semaphores, collected } = semaphoreMetrics();
+    const ref = new WeakRef(this);
+    semaphores.add(ref);
+    collected.register(this, ref);
+  }
+
+  /** Return the current state of each key, and how long acquisitions have waited. */
+  stats(): Record<string, SemaphoreKeyStats> {
+    return Object.fromEntries(
+      [...this.counts.entries()].map(([key, value]) => [
+        key,
+        {
+          limit: value.limit,
+          current: value.current,
+          pending: value.pending.length,
+          waits: { ...value.waits, buckets: [...value.waits.buckets] },
+        },
+      ])
+    );
+  }
+
+  /** The attributes to add to metrics for a key. */
+  metricAttributes(key: string): opentelemetry.Attributes {
+    return this.name
+      ? { 'semaphore.key': key, 'semaphore.name': this.name }
+      : { 'semaphore.key': key };
+  }
+
+  private recordWait(key: string, value: SemaphoreClass, waitMs: number) {
+    const waits = value.waits;
+    waits.count += 1;
+    waits.totalMs += waitMs;
+    waits.maxMs = Math.max(waits.maxMs, waitMs);
+
+    let bucket = SEMAPHORE_WAIT_BUCKETS.findIndex((bound) => waitMs <= bound);
+    if (bucket === -1) {
+      bucket = SEMAPHORE_WAIT_BUCKETS.length;
+    }
+    waits.buckets[bucket] += 1;
+
+    semaphoreMetrics().waitTime.record(waitMs, this.metricAttributes(key));
   }
 
   /** Update the limit for a semaphore key. */
@@ -27,12 +205,11 @@ export class LocalSemaphore implements Semaphore {
 
       // If the limit went up, run some pending tasks.
       while (value.pending.length > 0 && value.current < value.limit) {
-        let resolve = value.pending.shift();
-        resolve?.();
+        this.next(value)?.resolve();
         value.current++;
       }
     } else {
-      this.counts.set(key, { limit, current: 0, pending: [] });
+      this.counts.set(key, semaphoreClass(limit));
     }
   }
 
@@ -40,8 +217,10 @@ export class LocalSemaphore implements Semaphore {
    * These slots will not automatically release; you must call `release` with the same key when done, even if your
    * code throws an error.
    *
+   * When waiting, higher `priority` waiters go first, and waiters with the same priority take turns by `tenant`.
+   *
    * You can use the `run` function instead to automatically manage the acquisition and release of the semaphore. */
-  async acquire(key: string) {
+  async acquire(key: string, options?: SemaphoreAcquireOptions) {
     let value = this.counts.get(key);
     if (!value) {
       // If there's no data for this key, then there's no limit, so no point in tracking anything.
@@ -50,14 +229,55 @@ export class LocalSemaphore implements Semaphore {
       return Promise.resolve();
     }
 
+    if (options?.signal?.aborted) {
+      return Promise.reject(options.signal.reason ?? new CancelledError());
+    }
+
     if (value.current >= value.limit) {
       // We're at the limit already, so wait for a release
-      return new Promise<void>((resolve) => {
-        value.pending.push(resolve);
+      return new Promise<void>((resolve, reject) => {
+        const signal = options?.signal;
+        const timeoutMs = options?.timeoutMs;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const cleanup = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        };
+
+        const fail = (error: unknown) => {
+          const index = value.pending.indexOf(waiter);
+          if (index >= 0) {
+            value.pending.splice(index, 1);
+            cleanup();
+            reject(error);
+          }
+        };
+
+        const onAbort = () => fail(signal?.reason ?? new CancelledError());
+
+        const queuedAt = Date.now();
+        const waiter: Waiter = {
+          priority: options?.priority ?? 0,
+          tenant: options?.tenant ?? '',
+          seq: this.seq++,
+          resolve: () => {
+            cleanup();
+            this.recordWait(key, value, Date.now() - queuedAt);
+            resolve();
+          },
+        };
+
+        value.pending.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (timeoutMs !== undefined) {
+          timer = setTimeout(() => fail(new TimeoutError(timeoutMs)), timeoutMs);
+        }
       });
     } else {
       // We're not at the limit, so increment the count and resolve the promise immediately.
       value.current += 1;
+      this.recordWait(key, value, 0);
       return Promise.resolve();
     }
   }
@@ -66,17 +286,41 @@ export class LocalSemaphore implements Semaphore {
     let value = this.counts.get(key);
     if (value) {
       if (value.pending.length > 0 && value.current === value.limit) {
-        let resolve = value.pending.shift();
-        resolve?.();
+        this.next(value)?.resolve();
       } else {
         value.current = Math.max(value.current - 1, 0);
       }
     }
   }
 
+  /** Remove and return the waiter that should get the next slot. */
+  private next(value: SemaphoreClass) {
+    let best: Waiter | undefined;
+    let bestServed = 0;
+    for (const waiter of value.pending) {
+      const served = value.lastServed.get(waiter.tenant) ?? -1;
+      if (
+        !best ||
+        waiter.priority > best.priority ||
+        (waiter.priority === best.priority &&
+          (served < bestServed || (served === bestServed && waiter.seq < best.seq)))
+      ) {
+        best = waiter;
+        bestServed = served;
+      }
+    }
+
+    if (best) {
+      value.pending.splice(value.pending.indexOf(best), 1);
+      value.lastServed.set(best.tenant, this.seq++);
+    }
+
+    return best;
+  }
+
   /** Run a function as soon as the semaphore key's limit allows it */
-  async run<T>(key: string, f: () => Promise<T>): Promise<T> {
-    await this.acquire(key);
+  async run<T>(key: string, f: () => Promise<T>, options?: SemaphoreAcquireOptions): Promise<T> {
+    await this.acquire(key, options);
     try {
       let value = await f();
       return value;
@@ -89,14 +333,15 @@ export class LocalSemaphore implements Semaphore {
 /** Acquire multiple semaphores concurrently. */
 export async function acquireSemaphores(
   semaphores: Semaphore[],
-  key: string
+  key: string,
+  options?: SemaphoreAcquireOptions
 ): Promise<SemaphoreReleaser> {
   let acquired: boolean[] = [];
   let error = false;
   try {
     await Promise.all(
       semaphores.map(async (s, i) => {
-        await s.acquire(key);
+        await s.acquire(key, options);
         if (error) {
           // An error occurred somewhere else so immeidately release this semaphore.
           await s.release(key);
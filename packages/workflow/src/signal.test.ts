@@ -0,0 +1,65 @@
+import { expect, test } from 'bun:test';
+import { delay, raceSignal, timeoutController } from './signal.js';
+import { TimeoutError } from './errors.js';
+
+test('raceSignal resolves with the value', async () => {
+  const controller = new AbortController();
+  expect(await raceSignal(controller.signal, Promise.resolve(5))).toBe(5);
+  expect(await raceSignal(controller.signal, 6)).toBe(6);
+});
+
+test('raceSignal passes through rejections', async () => {
+  const controller = new AbortController();
+  await expect(raceSignal(controller.signal, Promise.reject(new Error('failed')))).rejects.toThrow(
+    'failed'
+  );
+});
+
+test('raceSignal rejects when aborted', async () => {
+  const controller = new AbortController();
+  const never = new Promise(() => {});
+  const result = raceSignal(controller.signal, never);
+  controller.abort(new Error('aborted'));
+  await expect(result).rejects.toThrow('aborted');
+});
+
+test('raceSignal rejects immediately if already aborted', async () => {
+  const controller = new AbortController();
+  controller.abort(new Error('aborted'));
+  await expect(raceSignal(controller.signal, 1)).rejects.toThrow('aborted');
+});
+
+test('timeoutController aborts after the timeout', async () => {
+  const { controller } = timeoutController(5, () => new TimeoutError(5));
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  expect(controller.signal.aborted).toBe(true);
+  expect(controller.signal.reason).toBeInstanceOf(TimeoutError);
+});
+
+test('timeoutController clear stops the timer', async () => {
+  const { controller, clear } = timeoutController(5, () => new TimeoutError(5));
+  clear();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  expect(controller.signal.aborted).toBe(false);
+});
+
+test('timeoutController without a timeout', async () => {
+  const { controller, clear } = timeoutController(undefined, () => new TimeoutError(0));
+  clear();
+  expect(controller.signal.aborted).toBe(false);
+});
+
+test('delay resolves after the time', async () => {
+  const start = Date.now();
+  await delay(10);
+  expect(Date.now() - start).toBeGreaterThanOrEqual(9);
+});
+
+test('delay resolves early when the signal aborts', async () => {
+  const controller = new AbortController();
+  const start = Date.now();
+  const result = delay(10_000, controller.signal);
+  controller.abort();
+  await result;
+  expect(Date.now() - start).toBeLessThan(1000);
+});
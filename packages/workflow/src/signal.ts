@@ -0,0 +1,46 @@
+/** Wait for `value`, but reject with the signal's reason as soon as the signal aborts. This makes sure that
+ * a node stops when it's cancelled or times out, even if it doesn't look at the signal itself. */
+export function raceSignal<T>(signal: AbortSignal, value: T | Promise<T>): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    Promise.resolve(value)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/** Wait for `ms`, or until the signal aborts. This resolves either way, so check the signal or the caller's state
+ * afterward. */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/** Create an AbortController which aborts with `reason` after `timeoutMs`, if a timeout is set.
+ * Call `clear` when the operation is done to stop the timer. */
+export function timeoutController(timeoutMs: number | undefined, reason: () => Error) {
+  const controller = new AbortController();
+  const timer = timeoutMs ? setTimeout(() => controller.abort(reason()), timeoutMs) : undefined;
+
+  return {
+    controller,
+    clear: () => clearTimeout(timer),
+  };
+}
@@ -0,0 +1,152 @@
+import { expect, test } from 'bun:test';
+import { analyzeStateMachine } from './analyze.js';
+import type { StateMachine } from './types.js';
+
+const run = async () => {};
+
+test('a clean machine has no issues', () => {
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'chat',
+    context: () => ({}),
+    errorState: 'failed',
+    events: { answer: {}, hangup: {} },
+    nodes: {
+      chat: {
+        initial: 'asking',
+        transition: { '': { state: 'done' }, hangup: { state: 'done' } },
+        nodes: {
+          asking: { transition: { answer: { state: 'thinking' } } },
+          thinking: { run, transition: { '': [{ state: 'asking' }, { state: 'finished' }] } },
+          finished: { final: true },
+        },
+      },
+      done: { final: true },
+      failed: { final: true },
+    },
+  };
+
+  expect(analyzeStateMachine(config)).toEqual([]);
+});
+
+test('unreachable states and dead ends', () => {
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({}),
+    nodes: {
+      start: { run, transition: 'stuck' },
+      stuck: { run },
+      orphan: {
+        initial: 'inner',
+        transition: 'start',
+        nodes: { inner: { transition: { go: { state: 'start' } } } },
+      },
+    },
+  };
+
+  expect(analyzeStateMachine(config)).toEqual([
+    {
+      type: 'deadEnd',
+      state: 'stuck',
+      message: 'State stuck has no transitions out of it and is not marked as final',
+    },
+    {
+      type: 'unreachable',
+      state: 'orphan',
+      message: 'State orphan can not be reached from the initial state',
+    },
+  ]);
+});
+
+test('error states count as reachable', () => {
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({}),
+    nodes: {
+      start: { run, errorState: 'failed', transition: 'done' },
+      failed: { final: true },
+      done: { final: true },
+    },
+  };
+
+  expect(analyzeStateMachine(config)).toEqual([]);
+});
+
+test('dead events', () => {
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'waiting',
+    context: () => ({}),
+    events: { answer: {}, unused: {} },
+    nodes: {
+      waiting: { transition: { answer: { state: 'done' }, typo: { state: 'done' } } },
+      done: { final: true },
+    },
+  };
+
+  expect(analyzeStateMachine(config).map((issue) => [issue.type, issue.event])).toEqual([
+    ['deadEvent', 'unused'],
+    ['deadEvent', 'typo'],
+  ]);
+
+  // Unknown events can still arrive when they're queued.
+  expect(analyzeStateMachine({ ...config, unknownEvents: 'queue' })).toHaveLength(1);
+});
+
+test('error loops', () => {
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({}),
+    errorState: 'recover',
+    nodes: {
+      start: { run, transition: 'done' },
+      recover: { run, errorState: 'report', transition: 'done' },
+      report: { run, transition: 'done' },
+      done: { final: true },
+    },
+  };
+
+  expect(analyzeStateMachine(config)).toEqual([
+    {
+      type: 'errorLoop',
+      state: 'recover',
+      message: 'Error states fail into each other in a loop: recover -> report -> recover',
+    },
+  ]);
+
+  // Failing back into the same state isn't a loop.
+  const { report, ...nodes } = config.nodes;
+  const selfLoop = { ...config, nodes: { ...nodes, recover: { run, transition: 'done' } } };
+  expect(analyzeStateMachine(selfLoop)).toEqual([]);
+});
+
+test('parallel regions', () => {
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'working',
+    context: () => ({}),
+    nodes: {
+      working: {
+        parallel: {
+          fetch: {
+            initial: 'fetching',
+            nodes: {
+              fetching: { run },
+              unused: { final: true },
+            },
+          },
+        },
+        transition: 'done',
+      },
+      done: { final: true },
+    },
+  };
+
+  expect(analyzeStateMachine(config).map((issue) => [issue.type, issue.state])).toEqual([
+    ['deadEnd', 'working.fetch.fetching'],
+    ['unreachable', 'working.fetch.unused'],
+  ]);
+});
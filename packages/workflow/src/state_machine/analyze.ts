@@ -0,0 +1,213 @@
+import {
+  StateTree,
+  ancestors,
+  buildStateTree,
+  enterState,
+  findErrorState,
+  listTransitions,
+  resolveState,
+} from './hierarchy.js';
+import type { StateMachine, StateMachineNode } from './types.js';
+
+export type StateMachineIssueType = 'unreachable' | 'deadEnd' | 'deadEvent' | 'errorLoop';
+
+/** A problem found by `analyzeStateMachine`. */
+export interface StateMachineIssue {
+  type: StateMachineIssueType;
+  /** The path of the state with the problem, if it involves a single state. States inside a parallel region are
+   * prefixed with the parallel state and the region name, such as `working.approval.waiting`. */
+  state?: string;
+  /** The event with the problem, for `deadEvent` issues. */
+  event?: string;
+  message: string;
+}
+
+/** The states and events of one machine, or of one region of a parallel state. */
+interface MachineLevel {
+  initial: string;
+  nodes: Record<string, StateMachineNode<any, any, any, any>>;
+  errorState?: string;
+  /** Prefix for state names in issues, for regions. */
+  prefix: string;
+}
+
+/** If a state runs any code that can throw and send the machine to an error state. */
+function canFail(node: StateMachineNode<any, any, any, any>) {
+  return Boolean(node.run || node.parallel || node.onEntry || node.onExit);
+}
+
+/** Find the states that the machine can move to from a state, not counting error states. */
+function nextStates(tree: StateTree, path: string) {
+  const { node, parent } = tree.get(path)!;
+  const targets: string[] = [];
+
+  // Events bubble up from enclosing states, but "always" transitions only come from the state itself.
+  for (let source of ancestors(path)) {
+    for (let { event, transition } of listTransitions(tree.get(source)!.node)) {
+      if (event || source === path) {
+        targets.push(enterState(tree, resolveState(tree, source, transition.state)!));
+      }
+    }
+  }
+
+  if (node.final && parent) {
+    // A final child state completes its parent, which then takes its "always" transition.
+    for (let { event, transition } of listTransitions(tree.get(parent)!.node)) {
+      if (!event) {
+        targets.push(enterState(tree, resolveState(tree, parent, transition.state)!));
+      }
+    }
+  }
+
+  return targets;
+}
+
+function analyzeLevel(
+  level: MachineLevel,
+  issues: StateMachineIssue[],
+  handledEvents: Map<string, string[]>
+) {
+  const tree = buildStateTree(level.nodes);
+  const name = (path: string) => level.prefix + path;
+
+  const errorTarget = (path: string) => {
+    if (!canFail(tree.get(path)!.node)) {
+      return;
+    }
+
+    const errorState = findErrorState(tree, path, level.errorState);
+    return errorState ? enterState(tree, errorState) : undefined;
+  };
+
+  // Walk the graph from the initial state to find everything reachable.
+  const reached = new Set<string>();
+  const queue = [enterState(tree, level.initial)];
+  while (queue.length) {
+    const path = queue.pop()!;
+    if (reached.has(path)) {
+      continue;
+    }
+
+    // Entering a state also enters the compound states that contain it.
+    ancestors(path).forEach((p) => reached.add(p));
+    queue.push(...nextStates(tree, path));
+
+    const error = errorTarget(path);
+    if (error) {
+      queue.push(error);
+    }
+  }
+
+  for (let { path, node, parent } of tree.values()) {
+    if (!reached.has(path)) {
+      // Only report the outermost unreachable state, since its children obviously can't be reached either.
+      if (!parent || reached.has(parent)) {
+        issues.push({
+          type: 'unreachable',
+          state: name(path),
+          message: `State ${name(path)} can not be reached from the initial state`,
+        });
+      }
+      continue;
+    }
+
+    for (let { event } of listTransitions(node)) {
+      if (event) {
+        const states = handledEvents.get(event) ?? [];
+        states.push(name(path));
+        handledEvents.set(event, states);
+      }
+    }
+
+    if (!node.nodes && !node.final && !nextStates(tree, path).length) {
+      issues.push({
+        type: 'deadEnd',
+        state: name(path),
+        message: `State ${name(path)} has no transitions out of it and is not marked as final`,
+      });
+    }
+
+    for (let [region, config] of Object.entries(node.parallel ?? {})) {
+      analyzeLevel(
+        { initial: config.initial, nodes: config.nodes, prefix: `${name(path)}.${region}.` },
+        issues,
+        handledEvents
+      );
+    }
+  }
+
+  // Look for error states that fail into each other forever. A state that fails into itself is fine, since the
+  // machine stops when an error leaves it in the same state.
+  const loops = new Set<string>();
+  for (let path of reached) {
+    if (tree.get(path)!.node.nodes) {
+      // The machine is never in a compound state itself, only in one of its children.
+      continue;
+    }
+
+    const chain = [path];
+    let next = errorTarget(path);
+    while (next && !chain.includes(next)) {
+      chain.push(next);
+      next = errorTarget(next);
+    }
+
+    const loop = next ? chain.slice(chain.indexOf(next)) : [];
+    const key = [...loop].sort().join(',');
+    if (loop.length > 1 && !loops.has(key)) {
+      loops.add(key);
+      issues.push({
+        type: 'errorLoop',
+        state: name(loop[0]),
+        message: `Error states fail into each other in a loop: ${[...loop, loop[0]].map(name).join(' -> ')}`,
+      });
+    }
+  }
+}
+
+/** Look for problems in a state machine's configuration that `StateMachineRunner` doesn't catch on its own:
+ *
+ * - `unreachable`: states that no path from the initial state leads to.
+ * - `deadEnd`: states that have no transitions out and aren't final, so the machine gets stuck there.
+ * - `deadEvent`: events listed in the machine's `events` that no reachable state handles, and transitions for
+ *   events that `send` would reject or drop because they aren't listed.
+ * - `errorLoop`: error states that can fail into each other forever.
+ */
+export function analyzeStateMachine(config: StateMachine<any, any>): StateMachineIssue[] {
+  const issues: StateMachineIssue[] = [];
+  const handledEvents = new Map<string, string[]>();
+  analyzeLevel(
+    { initial: config.initial, nodes: config.nodes, errorState: config.errorState, prefix: '' },
+    issues,
+    handledEvents
+  );
+
+  if (config.events) {
+    for (let event of Object.keys(config.events)) {
+      if (!handledEvents.has(event)) {
+        issues.push({
+          type: 'deadEvent',
+          event,
+          message: `Event ${event} is listed in the machine's events, but no reachable state handles it`,
+        });
+      }
+    }
+
+    if ((config.unknownEvents ?? 'reject') !== 'queue') {
+      for (let [event, states] of handledEvents) {
+        if (!config.events[event]) {
+          for (let state of states) {
+            issues.push({
+              type: 'deadEvent',
+              state,
+              event,
+              message: `State ${state} handles event ${event}, which is not listed in the machine's events`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,121 @@
+import { expect, test } from 'bun:test';
+import { stateMachineToDot, stateMachineToMermaid } from './diagram.js';
+import type { StateMachine } from './types.js';
+
+const config: StateMachine<{}, undefined> = {
+  name: 'chat',
+  initial: 'conversation',
+  context: () => ({}),
+  nodes: {
+    conversation: {
+      initial: 'asking',
+      transition: { '': { state: 'done' }, hangup: { state: 'done' } },
+      nodes: {
+        asking: {
+          transition: {
+            answer: { state: 'thinking', condition: () => true },
+            '': { state: 'finished', afterMs: 1000 },
+          },
+        },
+        thinking: { run: async () => {}, errorState: 'asking', transition: 'asking' },
+        finished: { final: true },
+      },
+    },
+    done: { final: true },
+  },
+};
+
+test('mermaid', () => {
+  expect(stateMachineToMermaid(config)).toEqual(
+    [
+      'stateDiagram-v2',
+      '  [*] --> s0',
+      '  state "conversation" as s0',
+      '  state s0 {',
+      '    [*] --> s1',
+      '    state "asking" as s1',
+      '    state "thinking" as s2',
+      '    state "finished" as s3',
+      '    s3 --> [*]',
+      '  }',
+      '  state "done" as s4',
+      '  s4 --> [*]',
+      '  s1 --> s2: answer [condition]',
+      '  s1 --> s3: after 1000ms',
+      '  s2 --> s1',
+      '  s2 --> s1: error',
+      '  s0 --> s4',
+      '  s0 --> s4: hangup',
+    ].join('\n')
+  );
+});
+
+test('dot', () => {
+  expect(stateMachineToDot(config)).toEqual(
+    [
+      'digraph "chat" {',
+      '  compound=true;',
+      '  "__start" [shape=point];',
+      '  subgraph "cluster_conversation" {',
+      '    label="conversation";',
+      '    "conversation.asking" [label="asking", shape=ellipse];',
+      '    "conversation.thinking" [label="thinking", shape=ellipse];',
+      '    "conversation.finished" [label="finished", shape=doublecircle];',
+      '  }',
+      '  "done" [label="done", shape=doublecircle];',
+      '  "__start" -> "conversation.asking" [lhead="cluster_conversation"];',
+      '  "conversation.asking" -> "conversation.thinking" [label="answer [condition]"];',
+      '  "conversation.asking" -> "conversation.finished" [label="after 1000ms"];',
+      '  "conversation.thinking" -> "conversation.asking";',
+      '  "conversation.thinking" -> "conversation.asking" [label="error"];',
+      '  "conversation.asking" -> "done" [ltail="cluster_conversation"];',
+      '  "conversation.asking" -> "done" [label="hangup", ltail="cluster_conversation"];',
+      '}',
+    ].join('\n')
+  );
+});
+
+test('parallel states', () => {
+  const parallel: StateMachine<{}, undefined> = {
+    name: 'parallel',
+    initial: 'working',
+    context: () => ({}),
+    nodes: {
+      working: {
+        parallel: {
+          a: { initial: 'one', nodes: { one: { final: true } } },
+          b: { initial: 'two', nodes: { two: { final: true } } },
+        },
+        transition: 'done',
+      },
+      done: { final: true },
+    },
+  };
+
+  const mermaid = stateMachineToMermaid(parallel);
+  expect(mermaid).toContain('    state s1 {\n      [*] --> s2');
+  expect(mermaid).toContain('    }\n    --\n    state "b" as s3');
+  expect(mermaid).toContain('  s0 --> s5');
+
+  const dot = stateMachineToDot(parallel);
+  expect(dot).toContain('subgraph "cluster_working.a" {');
+  expect(dot).toContain('"working.a.__start" -> "working.a.one";');
+  expect(dot).toContain('"working" -> "done" [ltail="cluster_working"];');
+});
+
+test('state names that would make the same mermaid ID', () => {
+  const clashing: StateMachine<{}, undefined> = {
+    name: 'clashing',
+    initial: 'a',
+    context: () => ({}),
+    nodes: {
+      a: { initial: 'b', nodes: { b: { transition: 'a_b' } } },
+      a_b: { final: true },
+    },
+  };
+
+  const mermaid = stateMachineToMermaid(clashing);
+  expect(mermaid).toContain('    state "b" as s1');
+  expect(mermaid).toContain('  state "a_b" as s2');
+  expect(mermaid).toContain('  s1 --> s2');
+});
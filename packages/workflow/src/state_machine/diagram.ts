@@ -0,0 +1,260 @@
+import {
+  StateTree,
+  buildStateTree,
+  enterState,
+  listTransitions,
+  resolveState,
+} from './hierarchy.js';
+import type { StateMachine, StateMachineNode, StateMachineTransition } from './types.js';
+
+type AnyNodes = Record<string, StateMachineNode<any, any, any, any>>;
+
+/** A transition to draw, between two full state paths. */
+interface Edge {
+  from: string;
+  to: string;
+  label: string;
+}
+
+/** Describe a transition for the diagram, such as `answer [condition] after 100ms`. */
+function transitionLabel(
+  event: string,
+  transition: StateMachineTransition<any, any, any, any, any>
+) {
+  const parts: string[] = [];
+  if (event) {
+    parts.push(event);
+  }
+  if (transition.condition) {
+    parts.push('[condition]');
+  }
+  if (transition.afterMs) {
+    parts.push(`after ${transition.afterMs}ms`);
+  }
+  return parts.join(' ');
+}
+
+/** Find the transitions out of a state, including to its own error state. */
+function stateEdges(tree: StateTree, prefix: string, path: string): Edge[] {
+  const node = tree.get(path)!.node;
+  const edges = listTransitions(node).map(({ event, transition }) => ({
+    from: prefix + path,
+    to: prefix + resolveState(tree, path, transition.state)!,
+    label: transitionLabel(event, transition),
+  }));
+
+  if (node.errorState) {
+    edges.push({
+      from: prefix + path,
+      to: prefix + resolveState(tree, path, node.errorState)!,
+      label: 'error',
+    });
+  }
+
+  return edges;
+}
+
+/** Give each state path an ID in the order they're first seen, since state names can contain anything. The names
+ * are shown as the labels instead. */
+function mermaidIds() {
+  const ids = new Map<string, string>();
+  return (path: string) => {
+    let id = ids.get(path);
+    if (!id) {
+      id = `s${ids.size}`;
+      ids.set(path, id);
+    }
+    return id;
+  };
+}
+
+function mermaidStates(
+  lines: string[],
+  edges: Edge[],
+  mermaidId: (path: string) => string,
+  tree: StateTree,
+  prefix: string,
+  nodes: AnyNodes,
+  initial: string,
+  parent: string | undefined,
+  indent: string
+) {
+  const pathOf = (name: string) => (parent ? `${parent}.${name}` : name);
+  lines.push(`${indent}[*] --> ${mermaidId(prefix + pathOf(initial))}`);
+
+  for (let [name, node] of Object.entries(nodes)) {
+    const path = pathOf(name);
+    const id = mermaidId(prefix + path);
+    lines.push(`${indent}state "${name}" as ${id}`);
+
+    if (node.nodes) {
+      lines.push(`${indent}state ${id} {`);
+      mermaidStates(
+        lines,
+        edges,
+        mermaidId,
+        tree,
+        prefix,
+        node.nodes,
+        node.initial!,
+        path,
+        indent + '  '
+      );
+      lines.push(`${indent}}`);
+    } else if (node.parallel) {
+      lines.push(`${indent}state ${id} {`);
+      Object.entries(node.parallel).forEach(([region, config], i) => {
+        if (i > 0) {
+          lines.push(`${indent}  --`);
+        }
+
+        const regionPrefix = `${prefix}${path}.${region}.`;
+        const regionId = mermaidId(`${prefix}${path}.${region}`);
+        lines.push(`${indent}  state "${region}" as ${regionId}`);
+        lines.push(`${indent}  state ${regionId} {`);
+        mermaidStates(
+          lines,
+          edges,
+          mermaidId,
+          buildStateTree(config.nodes),
+          regionPrefix,
+          config.nodes,
+          config.initial,
+          undefined,
+          indent + '    '
+        );
+        lines.push(`${indent}  }`);
+      });
+      lines.push(`${indent}}`);
+    }
+
+    if (node.final) {
+      lines.push(`${indent}${id} --> [*]`);
+    }
+
+    edges.push(...stateEdges(tree, prefix, path));
+  }
+}
+
+/** Render a state machine as a Mermaid state diagram. */
+export function stateMachineToMermaid(config: StateMachine<any, any>) {
+  const lines = ['stateDiagram-v2'];
+  const edges: Edge[] = [];
+  const mermaidId = mermaidIds();
+  mermaidStates(
+    lines,
+    edges,
+    mermaidId,
+    buildStateTree(config.nodes),
+    '',
+    config.nodes,
+    config.initial,
+    undefined,
+    '  '
+  );
+
+  // Transitions go at the top level, since they can cross between compound states.
+  for (let { from, to, label } of edges) {
+    lines.push(`  ${mermaidId(from)} --> ${mermaidId(to)}${label ? `: ${label}` : ''}`);
+  }
+
+  return lines.join('\n');
+}
+
+function dotString(value: string) {
+  return JSON.stringify(value);
+}
+
+/** Collect the DOT lines for some states, and remember which node stands in for each cluster so that edges to and
+ * from compound states can be drawn. */
+function dotStates(
+  lines: string[],
+  edges: Edge[],
+  anchors: Map<string, string>,
+  tree: StateTree,
+  prefix: string,
+  nodes: AnyNodes,
+  parent: string | undefined,
+  indent: string
+) {
+  for (let [name, node] of Object.entries(nodes)) {
+    const path = parent ? `${parent}.${name}` : name;
+    const id = prefix + path;
+
+    if (node.nodes) {
+      anchors.set(id, prefix + enterState(tree, path));
+      lines.push(`${indent}subgraph ${dotString(`cluster_${id}`)} {`);
+      lines.push(`${indent}  label=${dotString(name)};`);
+      dotStates(lines, edges, anchors, tree, prefix, node.nodes, path, indent + '  ');
+      lines.push(`${indent}}`);
+    } else if (node.parallel) {
+      // Edges to and from the parallel state attach to a point inside its cluster.
+      anchors.set(id, id);
+      lines.push(`${indent}subgraph ${dotString(`cluster_${id}`)} {`);
+      lines.push(`${indent}  label=${dotString(`${name} (parallel)`)};`);
+      lines.push(`${indent}  ${dotString(id)} [shape=point];`);
+      for (let [region, config] of Object.entries(node.parallel)) {
+        const regionPrefix = `${id}.${region}.`;
+        const regionTree = buildStateTree(config.nodes);
+        lines.push(`${indent}  subgraph ${dotString(`cluster_${id}.${region}`)} {`);
+        lines.push(`${indent}    label=${dotString(region)};`);
+        lines.push(`${indent}    ${dotString(`${regionPrefix}__start`)} [shape=point];`);
+        edges.push({
+          from: `${regionPrefix}__start`,
+          to: regionPrefix + config.initial,
+          label: '',
+        });
+        dotStates(
+          lines,
+          edges,
+          anchors,
+          regionTree,
+          regionPrefix,
+          config.nodes,
+          undefined,
+          indent + '    '
+        );
+        lines.push(`${indent}  }`);
+      }
+      lines.push(`${indent}}`);
+    } else {
+      const shape = node.final ? 'doublecircle' : 'ellipse';
+      lines.push(`${indent}${dotString(id)} [label=${dotString(name)}, shape=${shape}];`);
+    }
+
+    edges.push(...stateEdges(tree, prefix, path));
+  }
+}
+
+/** Render a state machine as a Graphviz DOT graph. Compound and parallel states are drawn as clusters. */
+export function stateMachineToDot(config: StateMachine<any, any>) {
+  const lines = [`digraph ${dotString(config.name)} {`, '  compound=true;'];
+  const edges: Edge[] = [{ from: '__start', to: config.initial, label: '' }];
+  const anchors = new Map<string, string>();
+
+  lines.push(`  ${dotString('__start')} [shape=point];`);
+  dotStates(lines, edges, anchors, buildStateTree(config.nodes), '', config.nodes, undefined, '  ');
+
+  for (let { from, to, label } of edges) {
+    const attrs: string[] = [];
+    if (label) {
+      attrs.push(`label=${dotString(label)}`);
+    }
+
+    // Graphviz can't draw an edge to a cluster directly, so point it at a node inside and clip it at the border.
+    const tail = anchors.get(from);
+    if (tail) {
+      attrs.push(`ltail=${dotString(`cluster_${from}`)}`);
+    }
+    const head = anchors.get(to);
+    if (head) {
+      attrs.push(`lhead=${dotString(`cluster_${to}`)}`);
+    }
+
+    const attrText = attrs.length ? ` [${attrs.join(', ')}]` : '';
+    lines.push(`  ${dotString(tail ?? from)} -> ${dotString(head ?? to)}${attrText};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+import { expect, test } from 'bun:test';
+import {
+  ancestors,
+  buildStateTree,
+  enterState,
+  resolveState,
+  transitionPath,
+} from './hierarchy.js';
+
+const tree = buildStateTree({
+  idle: { transition: 'chat' },
+  chat: {
+    initial: 'asking',
+    transition: { bye: { state: 'idle' } },
+    nodes: {
+      asking: { transition: { answer: { state: 'thinking' } } },
+      thinking: {
+        initial: 'search',
+        nodes: {
+          search: {},
+          idle: {},
+        },
+      },
+    },
+  },
+});
+
+test('buildStateTree', () => {
+  expect([...tree.keys()]).toEqual([
+    'idle',
+    'chat',
+    'chat.asking',
+    'chat.thinking',
+    'chat.thinking.search',
+    'chat.thinking.idle',
+  ]);
+  expect(tree.get('chat.thinking.search')?.parent).toBe('chat.thinking');
+  expect(tree.get('chat')?.parent).toBeUndefined();
+});
+
+test('state names with dots are rejected', () => {
+  expect(() => buildStateTree({ 'a.b': {} })).toThrow();
+});
+
+test('ancestors', () => {
+  expect(ancestors('chat.thinking.search')).toEqual([
+    'chat.thinking.search',
+    'chat.thinking',
+    'chat',
+  ]);
+  expect(ancestors('idle')).toEqual(['idle']);
+});
+
+test('resolveState', () => {
+  // Siblings come first
+  expect(resolveState(tree, 'chat.asking', 'thinking')).toBe('chat.thinking');
+  expect(resolveState(tree, 'chat.thinking.search', 'idle')).toBe('chat.thinking.idle');
+  // Then the siblings of enclosing states
+  expect(resolveState(tree, 'chat.thinking.search', 'asking')).toBe('chat.asking');
+  expect(resolveState(tree, 'chat.asking', 'idle')).toBe('idle');
+  // Full paths work from anywhere
+  expect(resolveState(tree, 'idle', 'chat.thinking.search')).toBe('chat.thinking.search');
+  expect(resolveState(tree, undefined, 'chat')).toBe('chat');
+  expect(resolveState(tree, 'idle', 'asking')).toBeUndefined();
+});
+
+test('enterState', () => {
+  expect(enterState(tree, 'chat')).toBe('chat.asking');
+  expect(enterState(tree, 'chat.thinking')).toBe('chat.thinking.search');
+  expect(enterState(tree, 'idle')).toBe('idle');
+});
+
+test('transitionPath', () => {
+  expect(transitionPath('chat.asking', 'chat.thinking.search')).toEqual({
+    exit: ['chat.asking'],
+    enter: ['chat.thinking', 'chat.thinking.search'],
+  });
+  expect(transitionPath('chat.thinking.search', 'idle')).toEqual({
+    exit: ['chat.thinking.search', 'chat.thinking', 'chat'],
+    enter: ['idle'],
+  });
+  expect(transitionPath('idle', 'idle')).toEqual({ exit: ['idle'], enter: ['idle'] });
+});
@@ -0,0 +1,127 @@
+import type { StateMachineNode, StateMachineTransition } from './types.js';
+
+type AnyStateMachineNode = StateMachineNode<any, any, any, any>;
+
+/** A state in a state machine, along with where it sits in the hierarchy. */
+export interface StateInfo {
+  /** The full path of the state, with the names of its ancestors separated by dots, such as `chat.asking`. */
+  path: string;
+  node: AnyStateMachineNode;
+  /** The path of the compound state that contains this one, if any. */
+  parent?: string;
+}
+
+/** All the states of a state machine, keyed by their full path. */
+export type StateTree = Map<string, StateInfo>;
+
+/** Build a `StateTree` from a state machine's nodes, including the children of compound states. */
+export function buildStateTree(nodes: Record<string, AnyStateMachineNode>): StateTree {
+  const tree: StateTree = new Map();
+
+  const add = (children: Record<string, AnyStateMachineNode>, parent?: string) => {
+    for (let [name, node] of Object.entries(children)) {
+      if (name.includes('.')) {
+        throw new Error(`State name ${name} can not contain a '.'`);
+      }
+
+      const path = parent ? `${parent}.${name}` : name;
+      tree.set(path, { path, node, parent });
+      if (node.nodes) {
+        add(node.nodes, path);
+      }
+    }
+  };
+
+  add(nodes);
+  return tree;
+}
+
+/** Return the path and the paths of its ancestors, from the innermost state outward. */
+export function ancestors(path: string): string[] {
+  const parts = path.split('.');
+  return parts.map((_, i) => parts.slice(0, parts.length - i).join('.'));
+}
+
+/** Find the state that a name refers to, as seen from the state at `from`. Siblings of `from` are checked first,
+ * then the siblings of each of its ancestors, so a name can be a full path or a path relative to any enclosing
+ * compound state. */
+export function resolveState(tree: StateTree, from: string | undefined, name: string) {
+  const scopes = from ? ancestors(from).slice(1) : [];
+  for (let scope of scopes) {
+    const path = `${scope}.${name}`;
+    if (tree.has(path)) {
+      return path;
+    }
+  }
+
+  return tree.has(name) ? name : undefined;
+}
+
+/** Return the state that is actually entered when transitioning to `path`. For a compound state this follows the
+ * `initial` states down to a state without children. */
+export function enterState(tree: StateTree, path: string): string {
+  const node = tree.get(path)?.node;
+  if (!node?.nodes) {
+    return path;
+  }
+
+  if (!node.initial || !node.nodes[node.initial]) {
+    throw new Error(`Compound state ${path} has no valid initial state`);
+  }
+
+  return enterState(tree, `${path}.${node.initial}`);
+}
+
+/** Find the states that a transition leaves and enters. States that contain both `from` and `to` are neither left
+ * nor entered. The exited states are listed from the innermost outward, and the entered states from the outermost
+ * inward, which is the order their hooks run in. A transition from a state to itself leaves and re-enters it. */
+export function transitionPath(from: string, to: string) {
+  if (from === to) {
+    return { exit: [from], enter: [to] };
+  }
+
+  const fromPaths = ancestors(from);
+  const toPaths = ancestors(to);
+  return {
+    exit: fromPaths.filter((path) => !toPaths.includes(path)),
+    enter: toPaths.filter((path) => !fromPaths.includes(path)).reverse(),
+  };
+}
+
+/** Find the error state for a state, looking at the state and its enclosing states and then at `machineErrorState`,
+ * which is the machine's own `errorState`. */
+export function findErrorState(tree: StateTree, path: string, machineErrorState?: string) {
+  for (let source of ancestors(path)) {
+    const errorState = tree.get(source)!.node.errorState;
+    if (errorState) {
+      return resolveState(tree, source, errorState);
+    }
+  }
+
+  return machineErrorState;
+}
+
+/** List a state's transitions along with the event that triggers each one. The event is an empty string for
+ * transitions that always run. */
+export function listTransitions(node: AnyStateMachineNode) {
+  const transitions: Array<{
+    event: string;
+    transition: StateMachineTransition<any, any, any, any, any>;
+  }> = [];
+
+  if (typeof node.transition === 'string') {
+    transitions.push({ event: '', transition: { state: node.transition } });
+    return transitions;
+  }
+
+  for (let [event, value] of Object.entries(node.transition ?? {})) {
+    // Plain strings aren't allowed by the types, but are handled for looser configs.
+    const tArray =
+      typeof value === 'string' ? [{ state: value }] : Array.isArray(value) ? value : [value];
+    for (let transition of tArray) {
+      transitions.push({ event, transition });
+    }
+  }
+
+  return transitions;
+}
@@ -1,2 +1,4 @@
+export * from './analyze.js';
+export * from './diagram.js';
 export * from './runner.js';
 export * from './types.js';
@@ -1,6 +1,9 @@
 import { describe, test, expect } from 'bun:test';
 import { StateMachineRunner } from './runner.js';
 import type { StateMachine } from './types.js';
+import { memoryRunStore } from '../run_store.js';
+import { memoryCache } from '../cache.js';
+import { TimeoutError, UnknownEventError, ValidationError } from '../errors.js';
 import {
   ChronicleEvent,
   StepStartEvent,
@@ -156,7 +159,10 @@ test('cancellation', async () => {
 
   await machine.run();
   expect(machine.canStep()).toBe(false);
-  expect(machine.state).toBe('one');
+  // Cancelling aborts the running node and discards its output, so the machine stays in the state that was running
+  // instead of taking its transition.
+  expect(machine.state).toBe('two');
+  expect(machine.context.value).toBe(4);
   expect(machine.machineStatus).toBe('cancelled');
 });
 
@@ -261,6 +267,37 @@ test('error state', async () => {
   expect(machine.machineStatus).toBe('error');
 });
 
+test('node timeout', async () => {
+  const config: StateMachine<{ value: number }, number> = {
+    name: 'test',
+    initial: 'start',
+    errorState: 'errored',
+    context: () => ({ value: 1 }),
+    nodes: {
+      start: {
+        timeoutMs: 10,
+        run: () => new Promise(() => {}),
+        transition: 'done',
+      },
+      errored: {
+        final: true,
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  const machine = new StateMachineRunner({
+    config,
+    input: 1,
+  });
+
+  await machine.run();
+  expect(machine.state).toBe('errored');
+  expect(machine.currentState.input).toBeInstanceOf(TimeoutError);
+});
+
 test.todo('semaphores');
 
 test('state without run function', async () => {
@@ -326,7 +363,1002 @@ test('state without run function', async () => {
   expect(rerouteEvent).toBeTruthy();
 });
 
-test('finished', async () => {});
+test('records state to a store', async () => {
+  const store = memoryRunStore();
+  const config: StateMachine<{ value: number }, number> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({ value: 1 }),
+    nodes: {
+      start: {
+        run: async ({ context, rootInput }) => {
+          context.value += rootInput;
+          return rootInput;
+        },
+        transition: 'waiting',
+      },
+      waiting: {
+        transition: {
+          next: 'done',
+        },
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  const machine = new StateMachineRunner({ id: 'machine-1', config, input: 2, store });
+  let states: string[] = [];
+  machine.on('state_machine:state', (e) => states.push(`${e.state}:${e.machineState}`));
+
+  await machine.run();
+  await machine.recorder?.flush();
+
+  expect(states).toEqual(['start:running', 'waiting:waitingForEvent']);
+  expect(await store.get('machine-1')).toMatchObject({
+    id: 'machine-1',
+    type: 'state_machine',
+    status: 'waitingForEvent',
+    state: {
+      currentState: { state: 'waiting', previousState: 'start', input: 2 },
+      context: { value: 3 },
+    },
+  });
+
+  await machine.send({ type: 'next', data: null });
+  await machine.recorder?.flush();
+  expect((await store.get('machine-1'))?.status).toEqual('final');
+});
+
+test('finished', async () => {
+  const config: StateMachine<{}, number> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({}),
+    nodes: {
+      start: {
+        run: async ({ rootInput }) => rootInput * 2,
+        transition: 'done',
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  const machine = new StateMachineRunner({
+    config,
+    input: 3,
+  });
+
+  const finished = machine.finished;
+  await machine.run();
+  expect(await finished).toEqual(6);
+});
+
+test('cacheable nodes', async () => {
+  let runs = { cached: 0, uncached: 0 };
+  const config: StateMachine<{}, number> = {
+    name: 'test',
+    initial: 'cached',
+    context: () => ({}),
+    nodes: {
+      cached: {
+        cacheable: true,
+        run: async ({ input }) => {
+          runs.cached += 1;
+          return input * 2;
+        },
+        transition: 'uncached',
+      },
+      uncached: {
+        run: async ({ input }) => {
+          runs.uncached += 1;
+          return input + 1;
+        },
+        transition: 'done',
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  const cache = memoryCache();
+  for (let i = 0; i < 2; i++) {
+    const machine = new StateMachineRunner({ config, input: 3, cache });
+    const finished = machine.finished;
+    await machine.run();
+    expect(await finished).toEqual(7);
+  }
+
+  expect(runs).toEqual({ cached: 1, uncached: 2 });
+});
+
+test('a failed cache write is reported without failing the state', async () => {
+  const config: StateMachine<{}, number> = {
+    name: 'test',
+    initial: 'cached',
+    context: () => ({}),
+    nodes: {
+      cached: {
+        cacheable: true,
+        run: async ({ input }) => input * 2,
+        transition: 'done',
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  const cache = {
+    ...memoryCache(),
+    set: async () => {
+      throw new Error('cache down');
+    },
+  };
+  const machine = new StateMachineRunner({ config, input: 3, cache });
+  const errors: string[] = [];
+  const reported = new Promise((resolve) => {
+    machine.on('ramus:cacheError', ({ node, error }) => {
+      errors.push(`${node}: ${error.message}`);
+      resolve(undefined);
+    });
+  });
+
+  const finished = machine.finished;
+  await machine.run();
+  expect(await finished).toEqual(6);
+  await reported;
+  expect(errors).toEqual(['cached: cache down']);
+});
+
+describe('restore', () => {
+  const config: StateMachine<{ messages: string[] }, string> = {
+    name: 'chat',
+    initial: 'greet',
+    context: () => ({ messages: [] }),
+    nodes: {
+      greet: {
+        run: async ({ context, rootInput }) => {
+          context.messages.push(`hello ${rootInput}`);
+        },
+        transition: 'waiting',
+      },
+      waiting: {
+        transition: {
+          message: { state: 'reply' },
+          later: { state: 'reply', afterMs: 30 },
+        },
+      },
+      reply: {
+        run: async ({ context, event }) => {
+          context.messages.push(`got ${event?.data}`);
+          return context.messages.length;
+        },
+        transition: 'done',
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  test('round trips through JSON', async () => {
+    const first = new StateMachineRunner({ config, input: 'bob' });
+    await first.run();
+    expect(first.machineStatus).toBe('waitingForEvent');
+    await first.send({ type: 'other', data: 'queued', queue: true });
+
+    const snapshot = JSON.parse(JSON.stringify(first));
+    expect(snapshot.currentState.state).toBe('waiting');
+    expect(snapshot.eventQueue).toEqual([{ type: 'other', data: 'queued', queue: true }]);
+
+    const restored = StateMachineRunner.restore<{ messages: string[] }, string, number>(snapshot, {
+      config,
+    });
+    expect(restored.id).toBe(first.id);
+    expect(restored.state).toBe('waiting');
+    expect(restored.machineStatus).toBe('waitingForEvent');
+    expect(restored.context).toEqual({ messages: ['hello bob'] });
+    expect(restored.stepIndex).toBe(first.stepIndex);
+    expect(restored.eventQueue).toEqual(first.eventQueue);
+
+    const finished = restored.finished;
+    await restored.send({ type: 'message', data: 'hi' });
+    await restored.run();
+    expect(await finished).toBe(2);
+    expect(restored.context.messages).toEqual(['hello bob', 'got hi']);
+  });
+
+  test('reruns a state that was running', async () => {
+    const first = new StateMachineRunner({ config, input: 'bob' });
+    const snapshot = { ...first.toJSON(), machineStatus: 'running' as const };
+
+    const restored = StateMachineRunner.restore(snapshot, { config });
+    expect(restored.machineStatus).toBe('ready');
+    await restored.run();
+    expect(restored.state).toBe('waiting');
+  });
+
+  test('resumes a delayed transition', async () => {
+    const first = new StateMachineRunner({ config, input: 'bob' });
+    await first.run();
+    await first.send({ type: 'later', data: 'hi' });
+    expect(first.delayedTransition).toBeDefined();
+
+    const snapshot = JSON.parse(JSON.stringify(first));
+    first.cancel();
+
+    const restored = StateMachineRunner.restore(snapshot, { config });
+    const finished = restored.finished;
+    expect(await finished).toBe(2);
+    expect(restored.state).toBe('done');
+  });
+
+  test('initial option', async () => {
+    const machine = new StateMachineRunner({ config, input: 'bob', initial: 'waiting' });
+    expect(machine.state).toBe('waiting');
+    expect(machine.canStep()).toBe(false);
+  });
+});
+
+describe('delayed transitions', () => {
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const config: StateMachine<{}, number> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({}),
+    nodes: {
+      start: {
+        run: async ({ rootInput }) => rootInput * 2,
+        transition: {
+          '': { state: 'timedOut', afterMs: 30 },
+          reply: { state: 'done' },
+        },
+      },
+      timedOut: {
+        run: async ({ input }) => input + 1,
+        transition: 'done',
+      },
+      done: {
+        final: true,
+      },
+    },
+  };
+
+  test('transitions after the delay', async () => {
+    const machine = new StateMachineRunner({ config, input: 3 });
+    const finished = machine.finished;
+    await machine.run();
+
+    expect(machine.state).toBe('start');
+    expect(machine.machineStatus).toBe('waitingForEvent');
+    expect(machine.delayedTransition).toMatchObject({ from: 'start', state: 'timedOut' });
+
+    await sleep(50);
+    expect(await finished).toEqual(7);
+    expect(machine.state).toBe('done');
+    expect(machine.delayedTransition).toBeUndefined();
+  });
+
+  test('another transition cancels the delay', async () => {
+    const machine = new StateMachineRunner({ config, input: 3 });
+    await machine.run();
+
+    await machine.send({ type: 'reply', data: null });
+    expect(machine.state).toBe('done');
+    expect(machine.delayedTransition).toBeUndefined();
+
+    await sleep(50);
+    expect(machine.state).toBe('done');
+    expect(machine.currentState.previousState).toBe('start');
+  });
+
+  test('guard sets the delay', async () => {
+    const machine = new StateMachineRunner({
+      config: {
+        ...config,
+        nodes: {
+          ...config.nodes,
+          start: {
+            transition: {
+              slow: {
+                state: 'timedOut',
+                condition: ({ event }) => ({ transition: true, afterMs: event?.data as number }),
+              },
+            },
+          },
+        },
+      },
+      input: 3,
+    });
+    await machine.run();
+
+    const before = Date.now();
+    await machine.send({ type: 'slow', data: 1000 });
+    expect(machine.state).toBe('start');
+    expect(machine.delayedTransition?.event).toEqual({ type: 'slow', data: 1000 });
+    expect(machine.delayedTransition!.fireAt).toBeGreaterThanOrEqual(before + 1000);
+
+    machine.cancel();
+    expect(machine.delayedTransition).toBeUndefined();
+  });
+
+  test('cancelling clears the timer', async () => {
+    const machine = new StateMachineRunner({ config, input: 3 });
+    await machine.run();
+    machine.cancel();
+
+    await sleep(50);
+    expect(machine.state).toBe('start');
+    expect(machine.machineStatus).toBe('cancelled');
+  });
+
+  test('delayed transition is saved', async () => {
+    const store = memoryRunStore();
+    const machine = new StateMachineRunner({ id: 'machine-1', config, input: 3, store });
+    await machine.run();
+    await machine.recorder?.flush();
+
+    const record = await store.get('machine-1');
+    expect((record?.state as any).delayedTransition).toMatchObject({
+      from: 'start',
+      state: 'timedOut',
+      fireAt: machine.delayedTransition!.fireAt,
+    });
+    machine.cancel();
+  });
+});
+
+describe('hierarchical states', () => {
+  const config: StateMachine<{ log: string[] }, string> = {
+    name: 'chat',
+    initial: 'conversation',
+    context: () => ({ log: [] }),
+    nodes: {
+      conversation: {
+        initial: 'asking',
+        transition: {
+          '': { state: 'done' },
+          // Handled the same way from every child state.
+          hangup: { state: 'goodbye' },
+        },
+        nodes: {
+          asking: {
+            transition: { answer: { state: 'thinking' } },
+          },
+          thinking: {
+            run: async ({ context, event }) => {
+              context.log.push(`thinking about ${event?.data}`);
+              return event?.data;
+            },
+            transition: {
+              '': [
+                { state: 'asking', condition: ({ output }) => output !== 'enough' },
+                { state: 'finished' },
+              ],
+            },
+          },
+          finished: { final: true },
+        },
+      },
+      goodbye: {
+        run: async ({ context }) => {
+          context.log.push('goodbye');
+          return 'hung up';
+        },
+        transition: 'done',
+      },
+      done: { final: true },
+    },
+  };
+
+  test('enters the initial child state', async () => {
+    const machine = new StateMachineRunner({ config, input: '' });
+    expect(machine.state).toBe('conversation.asking');
+    expect(machine.availableEvents()).toEqual(['answer', 'hangup']);
+
+    await machine.run();
+    await machine.send({ type: 'answer', data: 'one' });
+    expect(machine.state).toBe('conversation.thinking');
+    await machine.run();
+    expect(machine.state).toBe('conversation.asking');
+    expect(machine.context.log).toEqual(['thinking about one']);
+  });
+
+  test('events bubble up to the parent state', async () => {
+    const machine = new StateMachineRunner({ config, input: '' });
+    const finished = machine.finished;
+    await machine.run();
+
+    await machine.send({ type: 'hangup', data: null });
+    expect(machine.state).toBe('goodbye');
+    await machine.run();
+    expect(await finished).toBe('hung up');
+  });
+
+  test('a final child state completes its parent', async () => {
+    const machine = new StateMachineRunner({ config, input: '' });
+    const finished = machine.finished;
+    await machine.run();
+
+    await machine.send({ type: 'answer', data: 'enough' });
+    await machine.run();
+    expect(await finished).toBe('enough');
+    expect(machine.state).toBe('done');
+    expect(machine.currentState.previousState).toBe('conversation.finished');
+  });
+
+  test('validation', () => {
+    expect(
+      () =>
+        new StateMachineRunner({
+          config: {
+            ...config,
+            nodes: {
+              ...config.nodes,
+              conversation: { ...config.nodes.conversation, initial: 'nope' },
+            },
+          },
+          input: '',
+        })
+    ).toThrow('Compound state conversation has no valid initial state');
+
+    expect(
+      () =>
+        new StateMachineRunner({
+          config: {
+            ...config,
+            nodes: {
+              ...config.nodes,
+              conversation: {
+                ...config.nodes.conversation,
+                transition: { hangup: { state: 'goodbye' } },
+              },
+            },
+          },
+          input: '',
+        })
+    ).toThrow('Final state conversation.finished is inside conversation');
+  });
+});
+
+describe('parallel states', () => {
+  const config: StateMachine<{ log: string[] }, number> = {
+    name: 'test',
+    initial: 'working',
+    context: () => ({ log: [] }),
+    nodes: {
+      working: {
+        parallel: {
+          fetch: {
+            initial: 'fetching',
+            nodes: {
+              fetching: {
+                run: async ({ context, input }) => {
+                  context.log.push('fetch');
+                  return input * 2;
+                },
+                transition: 'fetched',
+              },
+              fetched: { final: true },
+            },
+          },
+          approval: {
+            initial: 'waiting',
+            nodes: {
+              waiting: {
+                transition: { approve: { state: 'approved' } },
+              },
+              approved: {
+                run: async ({ event }) => event?.data,
+                transition: 'done',
+              },
+              done: { final: true },
+            },
+          },
+        },
+        transition: 'done',
+      },
+      done: { final: true },
+    },
+  };
+
+  test('waits for every region and forwards events', async () => {
+    const machine = new StateMachineRunner({ config, input: 2 });
+    const finished = machine.finished;
+    const running = machine.run();
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(machine.state).toBe('working');
+    expect(machine.regions?.fetch.machineStatus).toBe('final');
+    expect(machine.regions?.approval.state).toBe('waiting');
+    expect(machine.availableEvents()).toEqual(['approve']);
+
+    await machine.send({ type: 'approve', data: 'yes' });
+    await running;
+    expect(await finished).toEqual({ fetch: 4, approval: 'yes' });
+    expect(machine.context.log).toEqual(['fetch']);
+  });
+
+  test('cancelling cancels the regions', async () => {
+    const machine = new StateMachineRunner({ config, input: 2 });
+    const running = machine.run();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const approval = machine.regions!.approval;
+    machine.cancel();
+    await running;
+    expect(approval.machineStatus).toBe('cancelled');
+    expect(machine.regions).toBeUndefined();
+  });
+
+  test('regions are saved and restored', async () => {
+    const machine = new StateMachineRunner({ config, input: 2 });
+    machine.run();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const snapshot = JSON.parse(JSON.stringify(machine));
+    machine.cancel();
+    expect(snapshot.regions.fetch.machineStatus).toBe('final');
+    expect(snapshot.regions.approval.currentState.state).toBe('waiting');
+
+    const restored = StateMachineRunner.restore(snapshot, { config });
+    const finished = restored.finished;
+    const running = restored.run();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await restored.send({ type: 'approve', data: 'yes' });
+    await running;
+
+    expect(await finished).toEqual({ fetch: 4, approval: 'yes' });
+    // The fetch region finished before the snapshot, so it didn't run again.
+    expect(restored.context.log).toEqual(['fetch']);
+  });
+});
+
+describe('actions', () => {
+  type Context = { log: string[]; count: number };
+  const log =
+    (message: string) =>
+    ({ context }: { context: Context }) => {
+      context.log.push(message);
+    };
+
+  const config: StateMachine<Context, number> = {
+    name: 'test',
+    initial: 'start',
+    context: () => ({ log: [], count: 0 }),
+    errorState: 'failed',
+    nodes: {
+      start: {
+        onEntry: log('enter start'),
+        onExit: log('exit start'),
+        run: async ({ context, rootInput }) => {
+          context.log.push('run start');
+          return rootInput;
+        },
+        transition: {
+          '': {
+            state: 'chat',
+            actions: [log('action'), ({ output }) => ({ count: output })],
+          },
+        },
+      },
+      chat: {
+        initial: 'waiting',
+        onEntry: log('enter chat'),
+        onExit: log('exit chat'),
+        transition: { '': { state: 'done' } },
+        nodes: {
+          waiting: {
+            onEntry: log('enter waiting'),
+            onExit: log('exit waiting'),
+            transition: {
+              add: {
+                state: 'waiting',
+                actions: [
+                  ({ context, event }) => ({ count: context.count + (event?.data as number) }),
+                ],
+              },
+              finish: { state: 'finished' },
+              fail: {
+                state: 'finished',
+                actions: [
+                  () => {
+                    throw new Error('action failed');
+                  },
+                ],
+              },
+            },
+          },
+          finished: { final: true },
+        },
+      },
+      done: { final: true, onEntry: log('enter done') },
+      failed: { final: true, onEntry: log('enter failed') },
+    },
+  };
+
+  test('hooks and actions run in order', async () => {
+    const machine = new StateMachineRunner({ config, input: 5 });
+    await machine.run();
+
+    expect(machine.state).toBe('chat.waiting');
+    expect(machine.context).toEqual({
+      log: ['enter start', 'run start', 'exit start', 'action', 'enter chat', 'enter waiting'],
+      count: 5,
+    });
+
+    machine.context.log = [];
+    await machine.send({ type: 'add', data: 2 });
+    // Transitioning to the same state leaves and re-enters it, but not its parent.
+    expect(machine.context).toEqual({ log: ['exit waiting', 'enter waiting'], count: 7 });
+
+    machine.context.log = [];
+    const finished = machine.finished;
+    await machine.send({ type: 'finish', data: null });
+    await machine.run();
+    await finished;
+    expect(machine.context.log).toEqual(['exit waiting', 'exit chat', 'enter done']);
+  });
+
+  test('a failing action goes to the error state', async () => {
+    const machine = new StateMachineRunner({ config, input: 5 });
+    await machine.run();
+
+    const errors: Error[] = [];
+    machine.on('ramus:error', ({ error }) => errors.push(error));
+    await machine.send({ type: 'fail', data: null });
+
+    expect(errors.map((e) => e.message)).toEqual(['action failed']);
+    expect(machine.state).toBe('failed');
+    expect(machine.context.log.at(-1)).toBe('enter failed');
+  });
+});
+
+describe('event schemas', () => {
+  type Events = { answer: { text: string }; cancel: undefined };
+  const config: StateMachine<{}, undefined> = {
+    name: 'test',
+    initial: 'asking',
+    context: () => ({}),
+    events: {
+      answer: {
+        description: 'The user answered the question',
+        schema: {
+          type: 'object',
+          properties: { text: { type: 'string' } },
+          required: ['text'],
+        },
+      },
+      cancel: {},
+    },
+    nodes: {
+      asking: {
+        transition: { answer: { state: 'done' } },
+      },
+      done: { final: true },
+    },
+  };
+
+  test('send results', async () => {
+    const machine = new StateMachineRunner<{}, undefined, unknown, Events>({
+      config,
+      input: undefined,
+    });
+
+    expect(machine.availableEventDetails()).toEqual([
+      {
+        type: 'answer',
+        description: 'The user answered the question',
+        schema: config.events!.answer.schema,
+      },
+    ]);
+
+    expect(await machine.send({ type: 'cancel', data: undefined })).toEqual({ status: 'dropped' });
+    expect(await machine.send({ type: 'cancel', data: undefined, queue: true })).toEqual({
+      status: 'queued',
+    });
+    expect(await machine.send({ type: 'answer', data: { text: 'hi' } })).toEqual({
+      status: 'handled',
+      transition: { from: 'asking', to: 'done', afterMs: undefined },
+    });
+    expect(machine.state).toBe('done');
+  });
+
+  test('invalid data', async () => {
+    const machine = new StateMachineRunner({ config, input: undefined });
+    expect(machine.send({ type: 'answer', data: { text: 5 } })).rejects.toThrow(ValidationError);
+    expect(machine.state).toBe('asking');
+  });
+
+  test('unknown events', async () => {
+    const rejecting = new StateMachineRunner({ config, input: undefined });
+    expect(rejecting.send({ type: 'other', data: null })).rejects.toThrow(UnknownEventError);
+
+    const dropping = new StateMachineRunner({
+      config: { ...config, unknownEvents: 'drop' },
+      input: undefined,
+    });
+    expect(await dropping.send({ type: 'other', data: null })).toEqual({ status: 'dropped' });
+
+    const queueing = new StateMachineRunner({
+      config: { ...config, unknownEvents: 'queue' },
+      input: undefined,
+    });
+    expect(await queueing.send({ type: 'other', data: null })).toEqual({ status: 'queued' });
+    expect(queueing.eventQueue).toEqual([{ type: 'other', data: null, queue: true }]);
+  });
+});
+
+describe('async guards', () => {
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  type Context = { calls: number };
+  const config: StateMachine<Context, undefined> = {
+    name: 'test',
+    initial: 'waiting',
+    context: () => ({ calls: 0 }),
+    errorState: 'failed',
+    nodes: {
+      waiting: {
+        transition: {
+          message: [
+            {
+              state: 'question',
+              // Stands in for asking a model what kind of message this is.
+              condition: async ({ context }, event) => {
+                context.calls += 1;
+                await sleep(10);
+                if (event?.data === 'broken') {
+                  throw new Error('classifier failed');
+                }
+                return (event?.data as string).endsWith('?');
+              },
+            },
+            { state: 'statement' },
+          ],
+        },
+      },
+      question: { transition: { message: { state: 'waiting' } } },
+      statement: { final: true },
+      failed: { final: true },
+    },
+  };
+
+  test('send reports the transition that fired', async () => {
+    const machine = new StateMachineRunner({ config, input: undefined });
+    await machine.run();
+
+    expect(await machine.send({ type: 'message', data: 'what?' })).toEqual({
+      status: 'handled',
+      transition: { from: 'waiting', to: 'question', afterMs: undefined },
+    });
+    expect(machine.state).toBe('question');
+  });
+
+  test('events wait for the guards of earlier events', async () => {
+    const machine = new StateMachineRunner({ config, input: undefined });
+    await machine.run();
+
+    const [first, second] = await Promise.all([
+      machine.send({ type: 'message', data: 'what?' }),
+      machine.send({ type: 'message', data: 'ok' }),
+    ]);
+
+    // The second event sees the state that the first one moved to, rather than both leaving `waiting`.
+    expect(first.transition).toEqual({ from: 'waiting', to: 'question', afterMs: undefined });
+    expect(second.transition).toEqual({ from: 'question', to: 'waiting', afterMs: undefined });
+    expect(machine.context.calls).toBe(1);
+  });
+
+  test('delayed transitions wait for the guards of earlier events', async () => {
+    const config: StateMachine<{}, undefined> = {
+      name: 'test',
+      initial: 'wait',
+      context: () => ({}),
+      nodes: {
+        wait: {
+          transition: {
+            later: { state: 'remind', afterMs: 10 },
+            confirm: {
+              state: 'confirmed',
+              condition: async () => {
+                await sleep(30);
+                return true;
+              },
+            },
+          },
+        },
+        remind: { transition: { confirm: { state: 'confirmed' } } },
+        confirmed: { final: true },
+      },
+    };
+
+    const machine = new StateMachineRunner({ config, input: undefined });
+    const states: string[] = [];
+    machine.on('state_machine:state', (e) => states.push(e.state));
+    await machine.run();
+    await machine.send({ type: 'later' });
+
+    // The delay runs out while the guard is still deciding, but the confirmation was sent first.
+    expect(await machine.send({ type: 'confirm' })).toEqual({
+      status: 'handled',
+      transition: { from: 'wait', to: 'confirmed', afterMs: undefined },
+    });
+    await sleep(20);
+
+    expect(machine.state).toBe('confirmed');
+    expect(states).not.toContain('remind');
+  });
+
+  test('a failing guard goes to the error state', async () => {
+    const machine = new StateMachineRunner({ config, input: undefined });
+    await machine.run();
+
+    const errors: Error[] = [];
+    machine.on('ramus:error', ({ error }) => errors.push(error));
+
+    expect(await machine.send({ type: 'message', data: 'broken' })).toEqual({
+      status: 'handled',
+      transition: { from: 'waiting', to: 'failed' },
+    });
+    expect(errors.map((e) => e.message)).toEqual(['classifier failed']);
+    expect(machine.state).toBe('failed');
+  });
+});
+
+describe('history', () => {
+  type Context = { words: string[] };
+  const config: StateMachine<Context, string> = {
+    name: 'test',
+    initial: 'greet',
+    context: () => ({ words: [] }),
+    errorState: 'failed',
+    nodes: {
+      greet: {
+        run: async ({ context, rootInput }) => {
+          context.words.push(rootInput);
+          return context.words.length;
+        },
+        transition: 'chat',
+      },
+      chat: {
+        transition: { say: { state: 'reply' } },
+      },
+      reply: {
+        run: async ({ context, event }) => {
+          if (context.words.includes('bad')) {
+            throw new Error('bad word');
+          }
+          context.words.push(event?.data as string);
+          return context.words.join(' ');
+        },
+        transition: 'chat',
+      },
+      failed: { final: true },
+    },
+  };
+
+  test('records steps and transitions', async () => {
+    const machine = new StateMachineRunner({ config, input: 'hello' });
+    await machine.run();
+    await machine.send({ type: 'say', data: 'there' });
+    await machine.run();
+
+    expect(
+      machine.history.map(({ step, kind, state, nextState, output, context }) => ({
+        step,
+        kind,
+        state,
+        nextState,
+        output,
+        context,
+      }))
+    ).toEqual([
+      {
+        step: 0,
+        kind: 'step',
+        state: 'greet',
+        nextState: 'chat',
+        output: 1,
+        context: { words: [] },
+      },
+      {
+        step: 1,
+        kind: 'transition',
+        state: 'chat',
+        nextState: 'reply',
+        output: undefined,
+        context: { words: ['hello'] },
+      },
+      {
+        step: 2,
+        kind: 'step',
+        state: 'reply',
+        nextState: 'chat',
+        output: 'hello there',
+        context: { words: ['hello'] },
+      },
+    ]);
+    expect(machine.history[1].event).toEqual({ type: 'say', data: 'there' });
+    expect(machine.history[2].event).toEqual({ type: 'say', data: 'there' });
+    for (let entry of machine.history) {
+      expect(entry.endedAt).toBeGreaterThanOrEqual(entry.startedAt);
+    }
+  });
+
+  test('keeps only the most recent entries', async () => {
+    const machine = new StateMachineRunner({ config, input: 'hello', historyLimit: 2 });
+    await machine.run();
+    await machine.send({ type: 'say', data: 'there' });
+    await machine.run();
+
+    expect(machine.history.map((e) => e.step)).toEqual([1, 2]);
+
+    const noHistory = new StateMachineRunner({ config, input: 'hello', historyLimit: 0 });
+    await noHistory.run();
+    expect(noHistory.history).toEqual([]);
+  });
+
+  test('records errors', async () => {
+    const machine = new StateMachineRunner({
+      config,
+      input: 'bad',
+    });
+    machine.on('ramus:error', () => {});
+    await machine.run();
+    await machine.send({ type: 'say', data: 'there' });
+    await machine.run();
+
+    const last = machine.history.at(-1)!;
+    expect(last.state).toBe('reply');
+    expect(last.nextState).toBe('failed');
+    expect(last.error).toEqual({ name: 'Error', message: 'bad word' });
+  });
+
+  test('replay from a step with a different context', async () => {
+    const machine = new StateMachineRunner({ config, input: 'bad' });
+    machine.on('ramus:error', () => {});
+    await machine.run();
+    await machine.send({ type: 'say', data: 'there' });
+    await machine.run();
+    expect(machine.state).toBe('failed');
+
+    const step = machine.history.find((e) => e.state === 'reply')!.step;
+    const replay = machine.replayFrom(step, { context: { words: ['good'] } });
+    expect(replay.state).toBe('reply');
+    expect(replay.history.map((e) => e.step)).toEqual([0, 1]);
+
+    await replay.run();
+    expect(replay.state).toBe('chat');
+    expect(replay.currentState.input).toBe('good there');
+    expect(replay.history.at(-1)).toMatchObject({ step, state: 'reply', nextState: 'chat' });
+    // The original machine is untouched.
+    expect(machine.state).toBe('failed');
+  });
+
+  test('replay from a transition', async () => {
+    const machine = new StateMachineRunner({ config, input: 'hello' });
+    await machine.run();
+    await machine.send({ type: 'say', data: 'there' });
+    await machine.run();
+
+    const replay = machine.replayFrom(1);
+    expect(replay.state).toBe('chat');
+    expect(replay.machineStatus).toBe('waitingForEvent');
+    expect(replay.context).toEqual({ words: ['hello'] });
+
+    await replay.send({ type: 'say', data: 'again' });
+    await replay.run();
+    expect(replay.currentState.input).toBe('hello again');
+    expect(() => machine.replayFrom(10)).toThrow('Step 10 is not in the history');
+  });
+});
 
 describe('events', () => {
   test.todo('event needed from initial state');
@@ -1,18 +1,44 @@
 import * as opentelemetry from '@opentelemetry/api';
-import { runStep, toSpanAttributeValue } from '@dimfeld/chronicle';
+import { RunContext, runStep, toSpanAttributeValue } from '@dimfeld/chronicle';
 import { EventEmitter } from 'events';
-import { CancelledError } from '../errors.js';
+import { uuidv7 } from 'uuidv7';
+import { CancelledError, TimeoutError, UnknownEventError } from '../errors.js';
+import { validateSchema } from '../validation.js';
+import { raceSignal, timeoutController } from '../signal.js';
 import { Runnable, RunnableEvents } from '../runnable.js';
 import { Semaphore, SemaphoreReleaser, acquireSemaphores } from '../semaphore.js';
+import { RunRecorder, RunStore } from '../run_store.js';
+import { calculateCacheKey, type NodeResultCache } from '../cache.js';
 import {
   StateMachine,
+  StateMachineAction,
+  StateMachineDelayedTransition,
+  StateMachineEventConfig,
+  StateMachineGuardResult,
+  StateMachineHistoryEntry,
+  StateMachineNode,
   StateMachineNodeInput,
+  StateMachineRegion,
   StateMachineSendEventOptions,
+  StateMachineSendResult,
+  StateMachineStateEvent,
   StateMachineStatus,
   TransitionGuardInput,
 } from './types.js';
+import {
+  StateTree,
+  ancestors,
+  buildStateTree,
+  enterState,
+  findErrorState,
+  listTransitions,
+  resolveState,
+  transitionPath,
+} from './hierarchy.js';
 
 export interface StateMachineRunnerOptions<CONTEXT extends object, ROOTINPUT> {
+  /** A UUID for this state machine instance. Autogenerated as a UUIDv7 if omitted */
+  id?: string;
   config: StateMachine<CONTEXT, ROOTINPUT>;
   /** Override the name for this instance of the state machine. */
   name?: string;
@@ -23,17 +49,74 @@ export interface StateMachineRunnerOptions<CONTEXT extends object, ROOTINPUT> {
   /** Semaphores which can be used to rate limit operations by the DAG. This accepts multiple Semaphores, which
    * can be used to provide a semaphore for global operations and another one for this particular DAG, for example. */
   semaphores?: Semaphore[];
+  /** The tenant this run belongs to. Semaphores use this to share their slots fairly between tenants. */
+  tenant?: string;
   input: ROOTINPUT;
 
   /** Additional info that will be merged with the info from the config and logged. */
   info?: object;
+
+  /** Record the state of the machine to this store whenever it changes. Records are keyed by `id`. */
+  store?: RunStore;
+
+  /** A cache for the output of nodes with `cacheable` set. */
+  cache?: NodeResultCache;
+
+  /** Use this RunContext instead of finding it from the current context. */
+  parentRunContext?: RunContext;
+
+  /** How many entries to keep in `history`. Defaults to 100, and 0 turns off the history. */
+  historyLimit?: number;
+}
+
+/** The saved state of a state machine run. This can be passed to `StateMachineRunner.restore` to continue the run
+ * later. */
+export interface StateMachineRunnerSnapshot<CONTEXT extends object, ROOTINPUT> {
+  id: string;
+  machineStatus: StateMachineStatus;
+  currentState: StateMachineRunner<CONTEXT, ROOTINPUT, unknown>['currentState'];
+  context: CONTEXT;
+  rootInput: ROOTINPUT;
+  eventQueue: StateMachineSendEventOptions[];
+  delayedTransition?: StateMachineDelayedTransition;
+  stepIndex: number;
+  /** The state of each region, when the machine is in a parallel state. */
+  regions?: Record<string, StateMachineRunnerSnapshot<CONTEXT, ROOTINPUT>>;
+}
+
+export type StateMachineRestoreOptions<CONTEXT extends object, ROOTINPUT> = Omit<
+  StateMachineRunnerOptions<CONTEXT, ROOTINPUT>,
+  'id' | 'input' | 'initial'
+>;
+
+export type StateMachineReplayOptions<CONTEXT extends object, ROOTINPUT> = Omit<
+  StateMachineRunnerOptions<CONTEXT, ROOTINPUT>,
+  'config' | 'input' | 'initial'
+>;
+
+type AnyStateMachineAction = StateMachineAction<any, any, any, any, any>;
+
+/** A transition that the machine has decided to take. */
+interface ResolvedTransition {
+  /** The state that the transition belongs to. This is the current state or one of its enclosing states. */
+  source: string;
+  /** The state to enter. */
+  state: string;
+  afterMs?: number;
+  actions?: AnyStateMachineAction[];
 }
 
 type StateMachineRunnerEvents<OUTPUT> = {
-  'state_machine:state': [{ machineState: StateMachineStatus; state: string }];
+  'state_machine:state': [StateMachineStateEvent];
 } & RunnableEvents<OUTPUT>;
 
-export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
+/** `EVENTS` maps each event type to the type of its data, for type checking calls to `send`. */
+export class StateMachineRunner<
+  CONTEXT extends object,
+  ROOTINPUT,
+  OUTPUT,
+  EVENTS extends Record<string, unknown> = Record<string, unknown>,
+>
   extends EventEmitter<StateMachineRunnerEvents<OUTPUT>>
   implements Runnable<OUTPUT, StateMachineRunnerEvents<OUTPUT>>
 {
@@ -49,35 +132,69 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
     output?: unknown;
   };
 
+  id: string;
   name: string;
   rootInput: ROOTINPUT;
   context: CONTEXT;
   config: StateMachine<CONTEXT, ROOTINPUT>;
+  /** Every state in the machine, including the children of compound states. */
+  states: StateTree;
+  /** The runners for each region, while the machine is in a parallel state. */
+  regions?: Record<string, StateMachineRunner<CONTEXT, ROOTINPUT, unknown>>;
+  /** Region snapshots from `restore`, used when the parallel state runs again. */
+  private regionSnapshots?: Record<string, StateMachineRunnerSnapshot<CONTEXT, ROOTINPUT>>;
   semaphores?: Semaphore[];
+  tenant?: string;
+  cache?: NodeResultCache;
   parentSpanContext?: opentelemetry.Context;
   info?: object;
+  parentRunContext?: RunContext;
   stepIndex = 0;
   eventStep: string | undefined;
   machineStep: string | null = null;
   eventQueue: StateMachineSendEventOptions[] = [];
+  recorder?: RunRecorder;
+  /** A transition with `afterMs` that is waiting to run. */
+  delayedTransition?: StateMachineDelayedTransition;
+  private delayTimer: ReturnType<typeof setTimeout> | undefined;
+  /** The most recent steps and transitions, oldest first. */
+  history: StateMachineHistoryEntry<CONTEXT>[] = [];
+  historyLimit: number;
+  private nextHistoryStep = 0;
+  /** Resolves when the events sent so far have been handled, so that events are handled one at a time. */
+  private pendingEvents: Promise<unknown> = Promise.resolve();
+  /** If the `onEntry` hooks for the initial state have run. */
+  private initialEntered = false;
+  /** Aborts the currently-running node when the machine is cancelled or the node times out. */
+  abortController?: AbortController;
   private _finished: Promise<OUTPUT> | undefined;
 
   constructor(options: StateMachineRunnerOptions<CONTEXT, ROOTINPUT>) {
     super();
-    validateConfig(options.config);
+    this.states = buildStateTree(options.config.nodes);
+    validateConfig(options.config, this.states);
+    this.id = options.id ?? uuidv7();
     this.config = options.config;
     this.context = options.context ?? this.config.context();
     this.rootInput = options.input;
     this.info = options.info;
     this.semaphores = options.semaphores;
+    this.tenant = options.tenant;
+    this.cache = options.cache;
+    this.parentRunContext = options.parentRunContext;
+    this.historyLimit = options.historyLimit ?? 100;
     this.name = options.name ? `${options.name}: ${options.config.name}` : options.config.name;
+    if (options.store) {
+      this.recorder = new RunRecorder(options.store);
+      this.recorder.on('saveError', ({ error }) => this.emit('ramus:storeError', { error }));
+    }
 
     const initial = options.initial ?? options.config.initial;
-    if (!this.config.nodes[initial]) {
+    if (!this.states.has(initial)) {
       throw new Error(`Initial state ${initial} does not exist`);
     }
 
-    this.currentState = { state: options.config.initial, input: options.input };
+    this.currentState = { state: enterState(this.states, initial), input: options.input };
     let parentSpan = opentelemetry.trace.getActiveSpan();
     if (parentSpan) {
       this.parentSpanContext = opentelemetry.trace.setSpan(
@@ -128,7 +245,12 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
   }
 
   cancel() {
+    this.clearDelayedTransition();
+    for (let region of Object.values(this.regions ?? {})) {
+      region.cancel();
+    }
     this.setStatus('cancelled');
+    this.abortController?.abort(new CancelledError());
     this.emit('cancelled');
   }
 
@@ -149,6 +271,7 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
           ...this.config.info,
           ...this.info,
         },
+        parentRunContext: this.parentRunContext,
       },
       async () => {
         while (this.canStep()) {
@@ -182,17 +305,29 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
       return false;
     }
 
-    const node = this.config.nodes[this.currentState.state];
-    if (node.run || typeof node.transition === 'string' || node.transition?.['']) {
-      return true;
-    }
+    return this.stateCanStep();
+  }
 
-    return false;
+  /** Return true if the current state does something on its own, rather than only waiting for events. */
+  private stateCanStep() {
+    const { node, parent } = this.states.get(this.currentState.state)!;
+    return Boolean(
+      node.run ||
+      node.parallel ||
+      typeof node.transition === 'string' ||
+      node.transition?.[''] ||
+      // A final child state completes its parent, which then transitions onward.
+      (node.final && parent)
+    );
   }
 
   step() {
     this.stepIndex += 1;
-    const config = this.config.nodes[this.currentState.state];
+    const config = this.states.get(this.currentState.state)!.node;
+    return this.recordHistory('step', this.currentState.event, () => this.runNode(config));
+  }
+
+  private runNode(config: StateMachineNode<CONTEXT, ROOTINPUT, any, any>) {
     return runStep(
       {
         name: `${this.name}: ${this.currentState.state}`,
@@ -203,12 +338,43 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
       },
       async (ctx, span) => {
         let semRelease: SemaphoreReleaser | undefined;
+        let clearTimer: (() => void) | undefined;
         try {
           if (this.semaphores?.length && config.semaphoreKey) {
             this.setStatus('pendingSemaphore');
-            semRelease = await acquireSemaphores(this.semaphores, config.semaphoreKey);
+            const weight =
+              typeof config.semaphoreWeight === 'function'
+                ? config.semaphoreWeight({
+                    context: this.context,
+                    input: this.currentState.input,
+                    rootInput: this.rootInput,
+                  })
+                : config.semaphoreWeight;
+
+            // Let `cancel` stop the wait.
+            const acquireController = new AbortController();
+            this.abortController = acquireController;
+            const waitStart = Date.now();
+            semRelease = await acquireSemaphores(this.semaphores, config.semaphoreKey, {
+              weight,
+              priority: config.priority,
+              tenant: this.tenant,
+              signal: acquireController.signal,
+            });
+            span.setAttribute(
+              'workflow.state_machine.node.semaphore_wait_ms',
+              Date.now() - waitStart
+            );
           }
           this.setStatus('running');
+          await this.enterInitialState();
+
+          const { controller, clear } = timeoutController(
+            config.timeoutMs,
+            () => new TimeoutError(config.timeoutMs!)
+          );
+          this.abortController = controller;
+          clearTimer = clear;
 
           let nodeInput: StateMachineNodeInput<CONTEXT, ROOTINPUT, any> = {
             context: this.context,
@@ -223,16 +389,45 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
             event: this.currentState.event,
             rootInput: this.rootInput,
             span,
+            signal: controller.signal,
           };
 
-          if (config.run) {
-            this.currentState.output = await config.run(nodeInput);
+          if (config.parallel) {
+            this.currentState.output = await raceSignal(
+              controller.signal,
+              this.runRegions(config.parallel, controller.signal)
+            );
+          } else if (config.run) {
+            const cacheable = config.cacheable && this.cache;
+            const cacheKey = cacheable
+              ? calculateCacheKey(
+                  config.run,
+                  { input: this.currentState.input, event: this.currentState.event },
+                  this.rootInput
+                )
+              : '';
+            const cachedValue = cacheable
+              ? await this.cache?.get(this.currentState.state, cacheKey)
+              : undefined;
+
+            if (cachedValue) {
+              this.currentState.output = JSON.parse(cachedValue);
+              span.setAttribute('workflow.state_machine.cache_hit', true);
+            } else {
+              this.currentState.output = await raceSignal(controller.signal, config.run(nodeInput));
+              if (cacheable) {
+                this.saveToCache(cacheKey, this.currentState.output);
+              }
+            }
             if (span.isRecording()) {
               span.setAttribute(
                 'workflow.state_machine.node.output',
                 toSpanAttributeValue(this.currentState.output as object)
               );
             }
+          } else if (config.final) {
+            // A final child state passes its input on to the parent state's transition.
+            this.currentState.output = this.currentState.input;
           }
 
           // If some events were queued up while running, then try applying them now.
@@ -248,7 +443,7 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
                 // We already transitioned, so keep `queue` events and drop others.
                 retainEvent = queue;
               } else {
-                let t = this.runTransition(type, data);
+                let t = await this.runTransition(type, data);
                 if (t) {
                   transitioned = true;
                   // Drop the event since we handled it.
@@ -271,7 +466,7 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
 
           if (!transitioned) {
             // None of the queued events triggered a transition, so try the "always" transition logic if present.
-            transitioned = this.runTransition();
+            transitioned = await this.runTransition();
           }
 
           if (transitioned) {
@@ -286,16 +481,13 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
             return false;
           }
 
-          let errorState = config?.errorState ?? this.config.errorState;
-          if (errorState) {
-            this.transitionTo(errorState, e);
-          }
-
-          this.setStatus('error');
+          await this.enterErrorState(e);
 
           // throw so that runStep will log the error
           throw e;
         } finally {
+          clearTimer?.();
+          this.abortController = undefined;
           semRelease?.();
         }
       }
@@ -310,10 +502,142 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
 
     this.machineStatus = newStatus;
 
-    this.emit('state', {
+    this.emit('state_machine:state', {
       machineState: this.machineStatus,
       state: this.currentState.state,
     });
+    this.save();
+  }
+
+  /** Capture the state of the machine, so that it can be restored later with `StateMachineRunner.restore`.
+   * The context, inputs, outputs, and event data must be JSON-serializable for the snapshot to be stored. */
+  toJSON(): StateMachineRunnerSnapshot<CONTEXT, ROOTINPUT> {
+    return {
+      id: this.id,
+      machineStatus: this.machineStatus,
+      currentState: this.currentState,
+      context: this.context,
+      rootInput: this.rootInput,
+      eventQueue: this.eventQueue,
+      delayedTransition: this.delayedTransition,
+      stepIndex: this.stepIndex,
+      regions: this.regions
+        ? Object.fromEntries(
+            Object.entries(this.regions).map(([name, region]) => [name, region.toJSON()])
+          )
+        : undefined,
+    };
+  }
+
+  /** Recreate a state machine runner from a snapshot. A state that was running when the snapshot was taken will run
+   * again when `run` is called, and a pending delayed transition resumes its timer. */
+  static restore<
+    CONTEXT extends object,
+    ROOTINPUT,
+    OUTPUT,
+    EVENTS extends Record<string, unknown> = Record<string, unknown>,
+  >(
+    snapshot: StateMachineRunnerSnapshot<CONTEXT, ROOTINPUT>,
+    options: StateMachineRestoreOptions<CONTEXT, ROOTINPUT>
+  ) {
+    const runner = new StateMachineRunner<CONTEXT, ROOTINPUT, OUTPUT, EVENTS>({
+      ...options,
+      id: snapshot.id,
+      input: snapshot.rootInput,
+      initial: snapshot.currentState.state,
+      context: options.context ?? snapshot.context,
+    });
+
+    runner.currentState = { ...snapshot.currentState };
+    runner.eventQueue = [...snapshot.eventQueue];
+    runner.stepIndex = snapshot.stepIndex;
+    runner.regionSnapshots = snapshot.regions;
+    runner.initialEntered = snapshot.machineStatus !== 'initial';
+    // A state that was in progress never finished, so it needs to run again.
+    runner.machineStatus =
+      snapshot.machineStatus === 'running' || snapshot.machineStatus === 'pendingSemaphore'
+        ? 'ready'
+        : snapshot.machineStatus;
+
+    if (snapshot.delayedTransition && runner.machineStatus !== 'cancelled') {
+      runner.delayedTransition = { ...snapshot.delayedTransition };
+      runner.armDelayedTransition();
+    }
+
+    return runner;
+  }
+
+  /** Create a new runner that starts from a step in the history, for debugging. The new runner starts with the
+   * context from that step unless `options.context` is given, and doesn't share the run store of this one.
+   *
+   * Replaying a `step` entry runs its state again when `run` is called. Replaying a `transition` entry leaves the
+   * machine waiting in the state that the transition left, so send the event again to continue. */
+  replayFrom(step: number, options: StateMachineReplayOptions<CONTEXT, ROOTINPUT> = {}) {
+    const entry = this.history.find((e) => e.step === step);
+    if (!entry) {
+      throw new Error(`Step ${step} is not in the history`);
+    }
+
+    const context = options.context ?? (entry.context && structuredClone(entry.context));
+    if (!context) {
+      throw new Error(`The context for step ${step} was not saved, so it must be passed in`);
+    }
+
+    const runner = new StateMachineRunner<CONTEXT, ROOTINPUT, OUTPUT, EVENTS>({
+      semaphores: this.semaphores,
+      tenant: this.tenant,
+      info: this.info,
+      historyLimit: this.historyLimit,
+      ...options,
+      config: this.config,
+      input: this.rootInput,
+      initial: entry.state,
+      context,
+    });
+
+    runner.currentState = {
+      state: entry.state,
+      previousState: entry.previousState,
+      input: entry.input,
+      event: entry.kind === 'step' ? entry.event : undefined,
+      output: entry.kind === 'transition' ? entry.output : undefined,
+    };
+    // The state was already entered the first time through.
+    runner.initialEntered = true;
+    runner.machineStatus = entry.kind === 'step' ? 'ready' : 'waitingForEvent';
+    runner.history = this.history.filter((e) => e.step < step);
+    runner.nextHistoryStep = step;
+
+    return runner;
+  }
+
+  /** Write the output of the current state to the cache in the background. A failed write emits `ramus:cacheError`
+   * instead of failing the state. */
+  private saveToCache(key: string, output: unknown) {
+    const cache = this.cache!;
+    const node = this.currentState.state;
+    const report = (error: unknown) =>
+      this.emit('ramus:cacheError', { node, error: error as Error });
+    try {
+      const value = JSON.stringify(output);
+      Promise.resolve()
+        .then(() => cache.set(node, key, value))
+        .catch(report);
+    } catch (e) {
+      report(e);
+    }
+  }
+
+  /** Save the current state to the run store, if there is one. */
+  private save() {
+    this.recorder?.save({
+      id: this.id,
+      type: 'state_machine',
+      name: this.name,
+      status: this.machineStatus,
+      state: this.toJSON(),
+      updatedAt: Date.now(),
+    });
   }
 
   private updatePostTransition() {
@@ -321,31 +645,74 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
       return;
     }
 
-    if (this.config.nodes[this.currentState.state].final) {
+    const { node, parent } = this.states.get(this.currentState.state)!;
+    // A final child state only finishes its parent state, not the whole machine.
+    if (node.final && !parent) {
       this.setStatus('final');
-      this.emit('finish', this.currentState.output);
+      // The final state hasn't run yet, so the output of the machine is what was passed into the final state.
+      this.emit('finish', this.currentState.input);
     } else {
-      this.setStatus('ready');
+      this.setStatus(this.stateCanStep() ? 'ready' : 'waitingForEvent');
     }
   }
 
+  /** The states to look for transitions in, from the innermost state outward. */
+  private transitionSources(eventType?: string) {
+    const { path, node, parent } = this.states.get(this.currentState.state)!;
+    if (eventType) {
+      // Events bubble up through the enclosing states.
+      return ancestors(path);
+    }
+
+    // The "always" transition only comes from the current state, except that a final child state uses the
+    // transition of the compound state that it completes.
+    return node.final && parent ? [parent] : [path];
+  }
+
   private transitionsForEvent(eventType?: string) {
-    const transitions = this.config.nodes[this.currentState.state].transition;
-    if (typeof transitions === 'string') {
-      // Unconditional transition, ignores events
-      return eventType ? undefined : transitions;
+    for (let source of this.transitionSources(eventType)) {
+      const transitions = this.states.get(source)!.node.transition;
+      if (typeof transitions === 'string') {
+        // Unconditional transition, ignores events
+        if (!eventType) {
+          return transitions;
+        }
+      } else if (transitions?.[eventType ?? '']) {
+        return transitions[eventType ?? ''];
+      }
+    }
+  }
+
+  /** Figure out which transition to run for an event. If none of the current state's transitions for the event
+   * apply, the enclosing states get a chance to handle it. */
+  private async resolveTransitions(
+    eventType?: string,
+    eventData?: unknown
+  ): Promise<ResolvedTransition | undefined> {
+    for (let source of this.transitionSources(eventType)) {
+      const next = await this.resolveStateTransitions(source, eventType, eventData);
+      if (next) {
+        return { ...next, source, state: this.targetState(source, next.state) };
+      }
     }
+  }
 
-    return transitions?.[eventType ?? ''];
+  /** Find the state that a transition from `source` to `name` enters. */
+  private targetState(source: string, name: string) {
+    return enterState(this.states, resolveState(this.states, source, name)!);
   }
 
-  /** Figure out which transition to run for an event. */
-  private resolveTransitions(eventType?: string, eventData?: unknown): string | undefined {
-    const node = this.config.nodes[this.currentState.state];
+  /** Figure out which of a single state's transitions to run for an event. */
+  private async resolveStateTransitions(
+    source: string,
+    eventType?: string,
+    eventData?: unknown
+  ): Promise<Omit<ResolvedTransition, 'source'> | undefined> {
+    const node = this.states.get(source)!.node;
 
     if (typeof node.transition === 'string') {
       // This node always transitions to this particular state so there's nothing to check.
-      return node.transition;
+      return eventType ? undefined : { state: node.transition };
     }
 
     const transition = node.transition?.[eventType ?? ''];
@@ -353,7 +720,7 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
     if (!transition) {
       return;
     } else if (typeof transition === 'string') {
-      return transition;
+      return { state: transition };
     } else {
       let transitionInput: TransitionGuardInput<CONTEXT, ROOTINPUT, any, any> = {
         context: this.context,
@@ -369,101 +736,594 @@ export class StateMachineRunner<CONTEXT extends object, ROOTINPUT, OUTPUT>
       for (let t of tArray) {
         if (!t.condition) {
           // No condition so we always do it.
-          return t.state;
+          return t;
         }
 
-        let cond = t.condition(transitionInput, eventInput);
+        let cond = await this.runGuard(source, eventType, () =>
+          t.condition!(transitionInput, eventInput)
+        );
         if (cond === true) {
-          return t.state;
+          return t;
         } else if (typeof cond === 'object') {
           // If you return an object we assume that you want to transition unless explicitly said otherwise.
           if (cond.transition == null || cond.transition === true) {
-            return t.state;
+            return { ...t, afterMs: cond.afterMs ?? t.afterMs };
           }
         }
       }
     }
   }
 
-  private transitionTo(nextState: string, input: unknown, eventType?: string, eventData?: unknown) {
+  /** Evaluate a transition guard in its own span, since guards can be slow, such as one that asks a model to
+   * classify the event. */
+  private runGuard(
+    source: string,
+    eventType: string | undefined,
+    guard: () => StateMachineGuardResult | Promise<StateMachineGuardResult>
+  ) {
+    return runStep(
+      {
+        name: `${this.name}: ${source}: guard ${eventType || '(always)'}`,
+        type: 'state_machine:guard',
+        input: { state: source, event: eventType },
+      },
+      async () => guard()
+    );
+  }
+
+  /** Run each region of a parallel state as its own state machine, and wait for all of them to finish. */
+  private async runRegions(
+    regions: Record<string, StateMachineRegion<CONTEXT, ROOTINPUT>>,
+    signal: AbortSignal
+  ) {
+    const snapshots = this.regionSnapshots;
+    this.regionSnapshots = undefined;
+
+    const runners = Object.fromEntries(
+      Object.entries(regions).map(([name, region]) => {
+        const options = {
+          config: {
+            name,
+            initial: region.initial,
+            nodes: region.nodes,
+            context: () => this.context,
+          },
+          name: this.name,
+          // Regions share the context of the parent machine.
+          context: this.context,
+          semaphores: this.semaphores,
+          tenant: this.tenant,
+          cache: this.cache,
+        };
+
+        const runner = snapshots?.[name]
+          ? StateMachineRunner.restore<CONTEXT, ROOTINPUT, unknown>(snapshots[name], options)
+          : new StateMachineRunner<CONTEXT, ROOTINPUT, unknown>({
+              ...options,
+              input: this.currentState.input,
+            });
+        // Keep the saved state of the regions up to date.
+        runner.on('state_machine:state', () => this.save());
+        runner.on('ramus:cacheError', (e) => this.emit('ramus:cacheError', e));
+        return [name, runner];
+      })
+    );
+
+    const cancelRegions = () => {
+      for (let runner of Object.values(runners)) {
+        if (runner.machineStatus !== 'final') {
+          runner.cancel();
+        }
+      }
+    };
+
+    this.regions = runners;
+    signal.addEventListener('abort', cancelRegions);
+    try {
+      const results = Object.entries(runners).map(async ([name, runner]) => {
+        if (runner.machineStatus === 'final') {
+          // This region already finished before the machine was restored.
+          return [name, runner.currentState.input];
+        }
+
+        const finished = runner.finished;
+        await runner.run();
+        return [name, await finished];
+      });
+      // Promise.all only reports the first failure, so keep the others from going unhandled.
+      results.forEach((result) => result.catch(() => {}));
+
+      return Object.fromEntries(await Promise.all(results));
+    } catch (e) {
+      // If one region fails, stop the others.
+      cancelRegions();
+      throw e;
+    } finally {
+      signal.removeEventListener('abort', cancelRegions);
+      this.regions = undefined;
+    }
+  }
+
+  private async transitionTo(
+    nextState: string,
+    input: unknown,
+    eventType?: string,
+    eventData?: unknown,
+    actions: AnyStateMachineAction[] = []
+  ) {
+    // Leaving the state some other way cancels any delayed transition out of it.
+    this.clearDelayedTransition();
+
+    const event = eventType ? { type: eventType, data: eventData } : undefined;
+    const { exit, enter } = transitionPath(this.currentState.state, nextState);
+
+    const exitInput = {
+      context: this.context,
+      input: this.currentState.input,
+      output: this.currentState.output,
+      rootInput: this.rootInput,
+      event,
+    };
+    for (let state of exit) {
+      await this.runAction('onExit', state, this.states.get(state)!.node.onExit, exitInput);
+    }
+    for (let action of actions) {
+      await this.runAction('action', this.currentState.state, action, exitInput);
+    }
+
     this.currentState = {
       previousState: this.currentState.state,
-      event: eventType ? { type: eventType, data: eventData } : undefined,
+      event,
       state: nextState,
       input,
     };
+
+    try {
+      await this.runEntryActions(enter);
+    } finally {
+      this.save();
+    }
+  }
+
+  /** Run the `onEntry` hooks of the initial state, if they haven't run yet. */
+  private async enterInitialState() {
+    if (this.initialEntered) {
+      return;
+    }
+
+    this.initialEntered = true;
+    await this.runEntryActions(ancestors(this.currentState.state).reverse());
+  }
+
+  private async runEntryActions(states: string[]) {
+    const entryInput = {
+      context: this.context,
+      input: this.currentState.input,
+      output: undefined,
+      rootInput: this.rootInput,
+      event: this.currentState.event,
+    };
+    for (let state of states) {
+      await this.runAction('onEntry', state, this.states.get(state)!.node.onEntry, entryInput);
+    }
+  }
+
+  /** Run an action and apply the context patch that it returns. */
+  private async runAction(
+    kind: 'onEntry' | 'onExit' | 'action',
+    state: string,
+    action: AnyStateMachineAction | undefined,
+    input: TransitionGuardInput<CONTEXT, ROOTINPUT, unknown, unknown>
+  ) {
+    if (!action) {
+      return;
+    }
+
+    opentelemetry.trace.getActiveSpan()?.addEvent(`state_machine.${kind}`, {
+      'workflow.state_machine.state': state,
+    });
+
+    const patch = await action(input);
+    if (patch) {
+      Object.assign(this.context, patch);
+    }
+  }
+
+  /** Go to the error state for the current state, if there is one, and mark the machine as errored. */
+  private async enterErrorState(error: unknown) {
+    let errorState = findErrorState(this.states, this.currentState.state, this.config.errorState);
+    if (errorState) {
+      try {
+        await this.transitionTo(enterState(this.states, errorState), error);
+      } catch (e) {
+        // The original error is the one that gets reported.
+      }
+    }
+
+    this.setStatus('error');
   }
 
   /** Run a transition for the given event, if one exists and the condition passes. */
-  private runTransition(eventType?: string, eventData?: unknown): boolean {
-    let nextState = this.resolveTransitions(eventType, eventData);
-    if (!nextState) {
+  private async runTransition(eventType?: string, eventData?: unknown): Promise<boolean> {
+    let next = await this.resolveTransitions(eventType, eventData);
+    if (!next) {
+      return false;
+    }
+
+    return this.applyTransition(next, eventType, eventData);
+  }
+
+  /** Take a transition, or schedule it if it has a delay. Returns true if the machine transitioned right away. */
+  private async applyTransition(next: ResolvedTransition, eventType?: string, eventData?: unknown) {
+    if (next.afterMs) {
+      this.delayTransition(next.source, next.state, next.afterMs, eventType, eventData);
       return false;
     }
 
-    this.transitionTo(nextState, this.currentState.output, eventType, eventData);
+    await this.transitionTo(
+      next.state,
+      this.currentState.output,
+      eventType,
+      eventData,
+      next.actions
+    );
     return true;
   }
 
-  /** Send an event to the state machine. */
-  send(options: StateMachineSendEventOptions) {
+  /** Run a transition that happens outside of `step`, such as one triggered by an event, in its own span so that
+   * its actions are traced. Errors are handled the same way as in `run`. Returns false if something threw. */
+  private async transitionStep(
+    name: string,
+    event: StateMachineSendEventOptions | undefined,
+    f: () => Promise<void>
+  ) {
+    const lastState = this.currentState.state;
+    try {
+      await this.recordHistory('transition', event, () =>
+        runStep(
+          {
+            name: `${this.name}: ${lastState}: ${name}`,
+            type: 'state_machine:node',
+            input: this.currentState,
+            parentRunContext: this.parentRunContext,
+          },
+          async () => {
+            try {
+              await this.enterInitialState();
+              await f();
+            } catch (e) {
+              await this.enterErrorState(e);
+              throw e;
+            }
+          }
+        )
+      );
+      return true;
+    } catch (e) {
+      this.emit('ramus:error', { error: e as Error, fatal: lastState === this.currentState.state });
+      return false;
+    }
+  }
+
+  /** Add an entry to the history for a step or transition, and fill it in as `f` finishes. */
+  private async recordHistory<T>(
+    kind: StateMachineHistoryEntry<CONTEXT>['kind'],
+    event: StateMachineSendEventOptions | undefined,
+    f: () => Promise<T>
+  ): Promise<T> {
+    if (!this.historyLimit) {
+      return f();
+    }
+
+    let context: CONTEXT | undefined;
+    try {
+      context = structuredClone(this.context);
+    } catch (e) {
+      // The context contains something that can't be copied, such as a function.
+    }
+
+    const start = this.currentState;
+    const entry: StateMachineHistoryEntry<CONTEXT> = {
+      step: this.nextHistoryStep++,
+      kind,
+      state: start.state,
+      previousState: start.previousState,
+      input: start.input,
+      event: event ? { type: event.type, data: event.data } : undefined,
+      context,
+      startedAt: Date.now(),
+    };
+
+    this.history.push(entry);
+    if (this.history.length > this.historyLimit) {
+      this.history.splice(0, this.history.length - this.historyLimit);
+    }
+
+    try {
+      return await f();
+    } catch (e) {
+      entry.error =
+        e instanceof Error
+          ? { name: e.name, message: e.message }
+          : { name: 'Error', message: String(e) };
+      throw e;
+    } finally {
+      entry.endedAt = Date.now();
+      entry.output = start.output;
+      // Every transition replaces `currentState`, even one from a state back to itself.
+      if (this.currentState !== start) {
+        entry.nextState = this.currentState.state;
+      }
+    }
+  }
+
+  /** Schedule a transition to run after a delay. */
+  private delayTransition(
+    source: string,
+    state: string,
+    afterMs: number,
+    eventType?: string,
+    eventData?: unknown
+  ) {
+    const existing = this.delayedTransition;
+    if (existing?.from === this.currentState.state && existing.state === state) {
+      // Already waiting for this transition, so keep the original deadline instead of restarting the delay.
+      return;
+    }
+
+    this.clearDelayedTransition();
+    this.delayedTransition = {
+      from: this.currentState.state,
+      source,
+      state,
+      fireAt: Date.now() + afterMs,
+      event: eventType ? { type: eventType, data: eventData } : undefined,
+    };
+    this.armDelayedTransition();
+    this.save();
+  }
+
+  /** Start the timer for the pending delayed transition. A transition whose time has already passed, such as one
+   * restored from a run store, fires right away. */
+  private armDelayedTransition() {
+    if (!this.delayedTransition || this.delayTimer) {
+      return;
+    }
+
+    const delay = Math.max(0, this.delayedTransition.fireAt - Date.now());
+    this.delayTimer = setTimeout(() => this.fireDelayedTransition(), delay);
+  }
+
+  private fireDelayedTransition() {
+    this.delayTimer = undefined;
+    // Take a turn after the events already being handled, like `send`, so that an event whose guards are still
+    // running isn't applied from the state that this transition moves to.
+    this.pendingEvents = this.pendingEvents
+      .then(() => this.applyDelayedTransition())
+      .catch(() => {});
+  }
+
+  private async applyDelayedTransition() {
+    const delayed = this.delayedTransition;
+    if (
+      !delayed ||
+      delayed.from !== this.currentState.state ||
+      this.machineStatus === 'cancelled'
+    ) {
+      return;
+    }
+
+    await this.transitionStep('delayed transition', delayed.event, async () => {
+      await this.transitionTo(
+        delayed.state,
+        this.currentState.output,
+        delayed.event?.type,
+        delayed.event?.data,
+        this.delayedActions(delayed)
+      );
+      this.updatePostTransition();
+    });
+
+    // Errors are emitted as events, so there's nothing to do with them here.
+    this.run().catch(() => {});
+  }
+
+  /** Find the actions for a delayed transition. Functions can't be saved to a run store, so these are looked up
+   * from the config when the transition fires. */
+  private delayedActions({ source, state, event }: StateMachineDelayedTransition) {
+    const transitions = this.states.get(source)?.node.transition;
+    const transition =
+      typeof transitions === 'string' ? undefined : transitions?.[event?.type ?? ''];
+    const tArray = Array.isArray(transition) ? transition : transition ? [transition] : [];
+    return tArray.find((t) => this.targetState(source, t.state) === state)?.actions ?? [];
+  }
+
+  private clearDelayedTransition() {
+    if (this.delayTimer) {
+      clearTimeout(this.delayTimer);
+      this.delayTimer = undefined;
+    }
+    this.delayedTransition = undefined;
+  }
+
+  /** Send an event to the state machine. The returned promise resolves once the guards have picked a transition and
+   * the transition and its actions have finished, and indicates what happened to the event and which transition it
+   * triggered. Events are handled one at a time in the order they were sent, so two events can't both take a
+   * transition out of the same state while their guards are running.
+   *
+   * Await `send` before looking at the machine's state, since the event isn't handled until the promise resolves.
+   *
+   * If the machine lists its `events`, this throws a `ValidationError` when the data doesn't match the event's
+   * schema, and handles unlisted events according to the machine's `unknownEvents` setting. */
+  async send<TYPE extends keyof EVENTS & string>(
+    options: StateMachineSendEventOptions<TYPE, EVENTS[TYPE]>
+  ): Promise<StateMachineSendResult> {
+    let event: StateMachineSendEventOptions = options;
+    if (this.config.events) {
+      const eventConfig = this.config.events[event.type];
+      if (eventConfig) {
+        validateSchema(eventConfig.schema, event.data, `data for event ${event.type}`);
+      } else {
+        const policy = this.config.unknownEvents ?? 'reject';
+        if (policy === 'reject') {
+          throw new UnknownEventError(event.type);
+        } else if (policy === 'drop') {
+          return { status: 'dropped' };
+        }
+
+        event = { ...event, queue: true };
+      }
+    }
+
+    const result = this.pendingEvents.then(() => this.handleEvent(event));
+    this.pendingEvents = result.catch(() => {});
+    return result;
+  }
+
+  private async handleEvent(event: StateMachineSendEventOptions): Promise<StateMachineSendResult> {
+    if (this.regions) {
+      // The machine is in a parallel state, so the event goes to the regions.
+      const results = await Promise.all(
+        Object.entries(this.regions).map(async ([name, region]) => {
+          const result = await region.send(event);
+          // The parallel state is waiting on the regions, so nothing else will run the state that the event moved
+          // the region into. Errors are emitted as events, so there's nothing to do with them here.
+          region.run().catch(() => {});
+          return [name, result] as const;
+        })
+      );
+      const statuses = results.map(([, result]) => result.status);
+      const status = statuses.includes('handled')
+        ? 'handled'
+        : statuses.includes('queued')
+          ? 'queued'
+          : 'dropped';
+      return { status, regions: Object.fromEntries(results) };
+    }
+
     if (
       this.machineStatus === 'running' ||
-      (options.queue && !this.transitionsForEvent(options.type))
+      (event.queue && !this.transitionsForEvent(event.type))
     ) {
-      this.eventQueue.push(options);
-    } else {
-      let transitioned = this.runTransition(options.type, options.data);
+      this.eventQueue.push(event);
+      return { status: 'queued' };
+    }
+
+    if (!this.transitionsForEvent(event.type)) {
+      return { status: 'dropped' };
+    }
+
+    const from = this.currentState.state;
+    let result: StateMachineSendResult = { status: 'dropped' };
+    // Guards run inside the step too, so a guard that throws sends the machine to its error state.
+    const ok = await this.transitionStep(`event ${event.type}`, event, async () => {
+      const next = await this.resolveTransitions(event.type, event.data);
+      if (!next) {
+        return;
+      }
+
+      result = {
+        status: 'handled',
+        transition: { from, to: next.state, afterMs: next.afterMs },
+      };
+      let transitioned = await this.applyTransition(next, event.type, event.data);
       if (transitioned) {
         this.updatePostTransition();
       }
+    });
+
+    if (!ok) {
+      // Something threw, so report the move to the error state instead.
+      return { status: 'handled', transition: { from, to: this.currentState.state } };
     }
+    return result;
+  }
+
+  /** Return the events that the current state can handle, with their descriptions and schemas from the machine's
+   * `events`. */
+  availableEventDetails(): Array<{ type: string } & StateMachineEventConfig> {
+    return this.availableEvents().map((type) => ({ type, ...this.config.events?.[type] }));
   }
 
   /** Return a list of events that the current state can handle. */
   availableEvents(): string[] {
-    return Object.keys(this.config.nodes[this.currentState.state].transition ?? {}).filter(
-      // filter out empty string
-      (name) => name
-    );
+    if (this.regions) {
+      const events = Object.values(this.regions).flatMap((region) => region.availableEvents());
+      return [...new Set(events)];
+    }
+
+    const events = ancestors(this.currentState.state).flatMap((source) => {
+      const transition = this.states.get(source)!.node.transition;
+      return typeof transition === 'string' ? [] : Object.keys(transition ?? {});
+    });
+
+    return [
+      ...new Set(
+        events.filter(
+          // filter out empty string
+          (name) => name
+        )
+      ),
+    ];
   }
 }
 
-function validateConfig(config: StateMachine<any, any>) {
+function validateConfig(config: StateMachine<any, any>, states: StateTree) {
   if (!config.initial) {
     throw new Error(`No initial state`);
   }
 
-  if (!config.nodes[config.initial]) {
+  if (!states.has(config.initial)) {
     throw new Error(`Initial state ${config.initial} does not exist`);
   }
 
-  if (config.errorState && !config.nodes[config.errorState]) {
+  if (config.errorState && !states.has(config.errorState)) {
     throw new Error(`Error state ${config.errorState} does not exist`);
   }
 
-  for (let [state, node] of Object.entries(config.nodes)) {
-    if (node.errorState && !config.nodes[node.errorState]) {
-      throw new Error(`Error state ${config.errorState} does not exist`);
+  for (let { path: state, node, parent } of states.values()) {
+    if (node.errorState && !resolveState(states, state, node.errorState)) {
+      throw new Error(`Error state ${node.errorState} does not exist`);
     }
 
-    if (typeof node.transition === 'string') {
-      if (!config.nodes[node.transition]) {
-        throw new Error(`State ${state} Transition target ${node.transition} does not exist`);
+    if (node.nodes) {
+      if (node.run || node.parallel) {
+        throw new Error(`Compound state ${state} can not have a run function or parallel regions`);
       }
-    } else {
-      for (let transition of Object.values(node.transition ?? {})) {
-        if (typeof transition === 'string') {
-          if (!config.nodes[transition]) {
-            throw new Error(`State ${state} Transition target ${transition} does not exist`);
-          }
-        } else if (Array.isArray(transition)) {
-          for (let t of transition) {
-            if (!config.nodes[t.state]) {
-              throw new Error(`State ${state} Transition target ${t} does not exist`);
-            }
-          }
-        }
+
+      if (!node.initial || !node.nodes[node.initial]) {
+        throw new Error(`Compound state ${state} has no valid initial state`);
+      }
+    }
+
+    if (node.parallel) {
+      if (node.run) {
+        throw new Error(`Parallel state ${state} can not have a run function`);
+      }
+
+      for (let [name, region] of Object.entries(node.parallel)) {
+        const regionConfig = {
+          name,
+          initial: region.initial,
+          nodes: region.nodes,
+          context: () => ({}),
+        };
+        validateConfig(regionConfig, buildStateTree(region.nodes));
+      }
+    }
+
+    if (node.final && parent) {
+      const parentTransition = states.get(parent)!.node.transition;
+      if (typeof parentTransition !== 'string' && !parentTransition?.['']) {
+        throw new Error(
+          `Final state ${state} is inside ${parent}, which needs an "always" transition to run when it finishes`
+        );
+      }
+    }
+
+    for (let { transition } of listTransitions(node)) {
+      if (!resolveState(states, state, transition.state)) {
+        throw new Error(`State ${state} Transition target ${transition.state} does not exist`);
       }
     }
   }
@@ -12,6 +12,11 @@ export type StateMachineStatus =
   | 'error'
   | 'cancelled';
 
+export interface StateMachineStateEvent {
+  machineState: StateMachineStatus;
+  state: string;
+}
+
 export interface StateMachine<CONTEXT extends object, ROOTINPUT> {
   name: string;
   /** The description of this DAG. This will go into the tool description if this DAG can be used as a tool. */
@@ -31,6 +36,25 @@ export interface StateMachine<CONTEXT extends object, ROOTINPUT> {
   /** Where the state machine should start */
   initial: string;
   nodes: Record<string, StateMachineNode<CONTEXT, ROOTINPUT, any, any>>;
+
+  /** The events that the machine accepts. When this is set, `send` checks event data against the schemas and
+   * handles events that aren't listed according to `unknownEvents`. */
+  events?: Record<string, StateMachineEventConfig>;
+  /** What `send` does with an event that isn't listed in `events`. 'reject' throws an `UnknownEventError`, 'drop'
+   * ignores the event, and 'queue' holds it until a state can handle it. Defaults to 'reject'. */
+  unknownEvents?: 'reject' | 'drop' | 'queue';
+}
+
+export interface StateMachineEventConfig {
+  description?: string;
+  /** The schema for the event's data. `send` throws a `ValidationError` if the data does not match. */
+  schema?: Schema;
+}
+
+/** A region of a parallel state. Each region runs as its own state machine, sharing the parent's context. */
+export interface StateMachineRegion<CONTEXT extends object, ROOTINPUT> {
+  initial: string;
+  nodes: Record<string, StateMachineNode<CONTEXT, ROOTINPUT, any, any>>;
 }
 
 export interface StateMachineNodeInput<CONTEXT extends object, ROOTINPUT, INPUTS>
@@ -46,14 +70,39 @@ export interface StateMachineNode<CONTEXT extends object, ROOTINPUT, INPUTS, OUT
   tags?: string[];
   info?: object;
 
+  /** Run when the machine enters this state, before `run`. */
+  onEntry?: StateMachineAction<CONTEXT, ROOTINPUT, INPUTS, undefined>;
+  /** Run when the machine leaves this state, before the transition's actions. */
+  onExit?: StateMachineAction<CONTEXT, ROOTINPUT, INPUTS, OUTPUT>;
+
   /** Mark this state as a final state.  Final states can still have transitions, such as if this
    * state machine interacts with a user and may or may not receive a response. This is only used to
    * give the state machine's user some idea of what's going on and serves no functional purpose.. */
   final?: boolean;
 
-  /** Transition to this state if a node throws an exception. Overrides the global errorState value. */
+  /** Transition to this state if a node throws an exception. Overrides the global errorState value. For a compound
+   * state, this applies to all of its child states that don't have their own errorState. */
   errorState?: string;
 
+  /** Child states, which make this a compound state. Transitioning to a compound state enters its `initial` child,
+   * and events that the current child state has no transition for bubble up to the compound state's transitions.
+   *
+   * Child states are named by their path, such as `parent.child`. Transition targets are looked up among the
+   * sibling states first, then the siblings of each enclosing state, so a child can refer to its siblings by name.
+   *
+   * Reaching a final child state takes the compound state's "always" transition, if it has one. Compound states
+   * can not have a `run` function. */
+  nodes?: Record<string, StateMachineNode<CONTEXT, ROOTINPUT, any, any>>;
+  /** The child state to enter first, for compound states. */
+  initial?: string;
+
+  /** Regions that run side by side while this state is active. Each region is a separate state machine with its
+   * own current state, and events sent to the machine while the regions run are passed on to every region.
+   *
+   * The state finishes once every region reaches a final state, and its output is an object containing the output
+   * of each region. This takes the place of a `run` function. */
+  parallel?: Record<string, StateMachineRegion<CONTEXT, ROOTINPUT>>;
+
   /** Mapping of events to transitions. Use the empty string to indicate a transition that always fires.
    *  If this state always proceeds to a single other state, this can be a string with the name of that state.
    * */
@@ -66,7 +115,25 @@ export interface StateMachineNode<CONTEXT extends object, ROOTINPUT, INPUTS, OUT
       >;
 
   semaphoreKey?: string;
+  /** How much of the semaphores' limits this node uses, such as an estimated token count for a rate limiter.
+   * Defaults to 1. */
+  semaphoreWeight?:
+    | number
+    | ((
+        input: Pick<
+          StateMachineNodeInput<CONTEXT, ROOTINPUT, INPUTS>,
+          'context' | 'input' | 'rootInput'
+        >
+      ) => number);
+  /** When waiting for a semaphore, nodes with a higher priority get a slot first. Defaults to 0. */
+  priority?: number;
+
+  /** Fail the node with a `TimeoutError` if `run` takes longer than this. The node's `signal` will abort
+   * when this happens. */
+  timeoutMs?: number;
 
+  /** Cache the output of `run` in the runner's `cache`. The cache key is made from the node's code, its input, the
+   * event that led to this state, and the root input. */
   cacheable?: boolean;
 }
 
@@ -78,6 +145,19 @@ export interface TransitionGuardInput<CONTEXT, ROOTINPUT, INPUTS, OUTPUT, EVENTD
   event?: { type: string; data: EVENTDATA };
 }
 
+export type StateMachineGuardResult =
+  | boolean
+  | undefined
+  | {
+      /** If true, run this transition */
+      transition: boolean;
+      /** If set, wait this long to trigger the transition. Other events can arrive and trigger a different
+       * transition in the meantime. Overrides the `afterMs` of the transition. */
+      afterMs?: number;
+    };
+
+/** Decide whether to take a transition. Guards can be async, such as one that asks a model to classify the event.
+ * Each guard runs in its own span, and if it throws the machine goes to its error state. */
 export type StateMachineTransitionGuard<
   CONTEXT extends object,
   ROOTINPUT,
@@ -87,17 +167,22 @@ export type StateMachineTransitionGuard<
 > = (
   input: TransitionGuardInput<CONTEXT, ROOTINPUT, INPUTS, OUTPUT, EVENTDATA>,
   event?: { type: string; data: unknown }
-) =>
-  | boolean
-  | undefined
-  | {
-      /** If true, run this transition */
-      transition: boolean;
-      // TODO Not implemented yet
-      // /** If set, wait this long to trigger the transition. Other events can arrive and trigger a different
-      //  * transition in the meantime. */
-      // afterMs?: number;
-    };
+) => StateMachineGuardResult | Promise<StateMachineGuardResult>;
+
+/** An action run on a transition or when entering or leaving a state. If it returns an object, the object's fields
+ * are assigned to the context.
+ *
+ * Actions run in the span of the state machine step that caused the transition. For a transition triggered by
+ * `send`, this is a step for the event. If an action throws, the machine goes to its error state. */
+export type StateMachineAction<
+  CONTEXT extends object,
+  ROOTINPUT,
+  INPUTS,
+  OUTPUT,
+  EVENTDATA = unknown,
+> = (
+  input: TransitionGuardInput<CONTEXT, ROOTINPUT, INPUTS, OUTPUT, EVENTDATA>
+) => Partial<CONTEXT> | void | Promise<Partial<CONTEXT> | void>;
 
 /** A state machine transition. */
 export type StateMachineTransition<CONTEXT extends object, ROOTINPUT, INPUTS, OUTPUT, EVENTDATA> = {
@@ -105,12 +190,75 @@ export type StateMachineTransition<CONTEXT extends object, ROOTINPUT, INPUTS, OU
   state: string;
   /** Trigger this transition if the condition is true */
   condition?: StateMachineTransitionGuard<CONTEXT, ROOTINPUT, INPUTS, OUTPUT, EVENTDATA>;
+  /** Run these actions, in order, when taking this transition. They run after the source state's `onExit` and
+   * before the destination state's `onEntry`. */
+  actions?: Array<StateMachineAction<CONTEXT, ROOTINPUT, INPUTS, OUTPUT, EVENTDATA>>;
+  /** Wait this long before transitioning. Any other transition out of the state in the meantime, such as one
+   * triggered by an event, cancels the delayed transition. */
+  afterMs?: number;
 };
 
-export interface StateMachineSendEventOptions {
-  type: string;
-  data: unknown;
+/** A transition that is waiting for its `afterMs` delay to pass. */
+export interface StateMachineDelayedTransition {
+  /** The state that the transition leaves from. */
+  from: string;
+  /** The state whose transition this is. This is `from` or one of the states that contain it. */
+  source: string;
+  /** The destination state */
+  state: string;
+  /** When the transition should happen, in milliseconds since the epoch. */
+  fireAt: number;
+  /** The event that triggered the transition, if any. */
+  event?: { type: string; data: unknown };
+}
+
+/** A record of one thing that the machine did, kept in `StateMachineRunner.history` for debugging. */
+export interface StateMachineHistoryEntry<CONTEXT extends object> {
+  /** Numbers the entries in order, starting from 0. Pass this to `StateMachineRunner.replayFrom` to run the machine
+   * again from this point. */
+  step: number;
+  /** `step` for a state that ran, and `transition` for a transition that happened outside of a step, such as one
+   * triggered by an event or a delay. */
+  kind: 'step' | 'transition';
+  /** The state that the machine was in. */
+  state: string;
+  previousState?: string;
+  input: unknown;
+  /** The output of the state. For a `transition` entry, this is the output of the state that the machine left. */
+  output?: unknown;
+  /** For a `step`, the event that led to the state. For a `transition`, the event that triggered it. */
+  event?: { type: string; data: unknown };
+  /** A copy of the context from before the entry started. This is missing if the context couldn't be copied. */
+  context?: CONTEXT;
+  /** The state that the machine moved to, if it transitioned. */
+  nextState?: string;
+  error?: { name: string; message: string };
+  /** When the entry started, in milliseconds since the epoch. */
+  startedAt: number;
+  /** When the entry finished, in milliseconds since the epoch. */
+  endedAt?: number;
+}
+
+export interface StateMachineSendEventOptions<TYPE extends string = string, DATA = unknown> {
+  type: TYPE;
+  data: DATA;
   /** If true, queue this event up until a state can handle it. If false or omitted, try to send the event
    * on the next transition, and drop it if it can't be handled. */
   queue?: boolean;
 }
+
+export interface StateMachineSendResult {
+  /** 'handled' if the event triggered a transition, including a delayed one. 'queued' if the event is waiting
+   * until the machine can handle it, and 'dropped' if nothing handled it. */
+  status: 'handled' | 'queued' | 'dropped';
+  /** The transition that the event triggered, if it was handled. If a guard or action threw, this is the move to
+   * the error state. */
+  transition?: {
+    from: string;
+    to: string;
+    /** Set if the transition is delayed, and so hasn't happened yet. */
+    afterMs?: number;
+  };
+  /** The result from each region, when the machine is in a parallel state. */
+  regions?: Record<string, StateMachineSendResult>;
+}
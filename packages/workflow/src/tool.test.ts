@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { toOpenAiTool } from '@ramus/tools';
+import { workflowTool } from './tool.js';
+import { ValidationError } from './errors.js';
+import type { Dag } from './dag/types.js';
+import type { StateMachine } from './state_machine/types.js';
+
+const inputSchema = {
+  type: 'object',
+  required: ['value'],
+  properties: {
+    value: { type: 'number' },
+  },
+};
+
+const dag: Dag<{}, { value: number }> = {
+  name: 'double',
+  description: 'Double a number',
+  inputSchema,
+  context: () => ({}),
+  nodes: {
+    double: {
+      run: ({ rootInput }) => ({ doubled: rootInput.value * 2 }),
+    },
+  },
+};
+
+describe('workflowTool', () => {
+  test('DAG', async () => {
+    const tool = workflowTool<{ value: number }, { doubled: number }>(dag);
+    expect(tool.name).toEqual('double');
+    expect(tool.description).toEqual('Double a number');
+    expect(toOpenAiTool(tool).function.parameters).toEqual(inputSchema);
+
+    const output = await tool.run({ value: 3 });
+    expect(output).toEqual({ doubled: 6 });
+    expect(JSON.parse(tool.asText(output))).toEqual({ doubled: 6 });
+  });
+
+  test('state machine', async () => {
+    const machine: StateMachine<{}, { value: number }> = {
+      name: 'increment',
+      description: 'Add one to a number',
+      inputSchema,
+      initial: 'start',
+      context: () => ({}),
+      nodes: {
+        start: {
+          run: async ({ rootInput }) => `${rootInput.value + 1}`,
+          transition: 'done',
+        },
+        done: {
+          final: true,
+        },
+      },
+    };
+
+    const tool = workflowTool<{ value: number }, string>(machine);
+    const output = await tool.run({ value: 3 });
+    expect(output).toEqual('4');
+    expect(tool.asText(output)).toEqual('4');
+  });
+
+  test('invalid input', async () => {
+    const tool = workflowTool<{ value: number }, { doubled: number }>(dag);
+    await expect(tool.run({ value: 'abc' } as any)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  test('custom options', async () => {
+    const tool = workflowTool<{ value: number }, { doubled: number }>(dag, {
+      name: 'doubler',
+      asText: (value) => `The answer is ${value.doubled}`,
+    });
+
+    expect(tool.name).toEqual('doubler');
+    expect(tool.asText(await tool.run({ value: 2 }))).toEqual('The answer is 4');
+  });
+
+  test('requires a schema', () => {
+    const { inputSchema, ...noSchema } = dag;
+    expect(() => workflowTool(noSchema)).toThrow('needs an input schema');
+  });
+});
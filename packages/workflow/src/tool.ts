@@ -0,0 +1,82 @@
+import type { ToolConfig } from '@ramus/tools';
+import type { Schema } from 'jsonschema';
+import { CompiledDag } from './dag/compile.js';
+import { DagRunner, type DagRunnerOptions } from './dag/runner.js';
+import type { Dag } from './dag/types.js';
+import { StateMachineRunner, type StateMachineRunnerOptions } from './state_machine/runner.js';
+import type { StateMachine } from './state_machine/types.js';
+import type { Runnable } from './runnable.js';
+import { validateSchema } from './validation.js';
+
+export interface WorkflowToolOptions<OUTPUT> {
+  /** Override the name of the tool. Defaults to the workflow's name. */
+  name?: string;
+  /** Override the description of the tool. Defaults to the workflow's `description`. */
+  description?: string;
+  /** Override the input schema of the tool. Defaults to the workflow's `inputSchema`. */
+  schema?: Schema;
+  /** Options to pass to the runner each time the tool is called, such as the cache or semaphores. */
+  runnerOptions?:
+    | Omit<DagRunnerOptions<any, any, OUTPUT>, 'dag' | 'input'>
+    | Omit<StateMachineRunnerOptions<any, any>, 'config' | 'input'>;
+  /** Format the workflow's output as text for the model. Strings are passed through and everything else is
+   * converted to JSON if this is omitted. */
+  asText?: (value: OUTPUT) => string;
+}
+
+/** Create a tool which runs a DAG or state machine. The workflow must have a description and an input schema, either
+ * in its own config or in `options`. The returned config is for use with `@ramus/tools`, which is an optional peer
+ * dependency of this package. */
+export function workflowTool<INPUT extends object, OUTPUT>(
+  workflow: Dag<any, INPUT> | CompiledDag<any, INPUT, OUTPUT> | StateMachine<any, INPUT>,
+  options: WorkflowToolOptions<OUTPUT> = {}
+): ToolConfig<INPUT, OUTPUT> {
+  const config = workflow instanceof CompiledDag ? workflow.config : workflow;
+
+  const name = options.name ?? config.name;
+  const description = options.description ?? config.description;
+  const schema = options.schema ?? config.inputSchema;
+  if (!description) {
+    throw new Error(`Workflow ${name} needs a description to be used as a tool`);
+  }
+
+  if (!schema) {
+    throw new Error(`Workflow ${name} needs an input schema to be used as a tool`);
+  }
+
+  return {
+    name,
+    description,
+    schema,
+    async run(input: INPUT) {
+      validateSchema(schema, input, `input for ${name}`);
+
+      let runner: Runnable<OUTPUT>;
+      if ('initial' in workflow) {
+        runner = new StateMachineRunner<any, INPUT, OUTPUT>({
+          ...options.runnerOptions,
+          config: workflow,
+          input,
+        });
+      } else {
+        runner = new DagRunner<any, INPUT, OUTPUT>({
+          ...options.runnerOptions,
+          dag: workflow,
+          input,
+        });
+      }
+
+      const finished = runner.finished;
+      // Errors are reported through `finished`.
+      Promise.resolve(runner.run()).catch(() => {});
+      return await finished;
+    },
+    asText(value: OUTPUT) {
+      if (options.asText) {
+        return options.asText(value);
+      }
+
+      return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    },
+  };
+}
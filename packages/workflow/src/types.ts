@@ -18,4 +18,7 @@ export interface NodeInput<CONTEXT extends object, ROOTINPUT, INPUTS> {
    * This is equivalent to `if(isCancelled()) { return; }`
    * */
   exitIfCancelled: () => void;
+  /** An AbortSignal which fires when the node is cancelled or times out. Pass this to `fetch` and similar
+   * functions so that they stop when the node does. */
+  signal: AbortSignal;
 }
@@ -0,0 +1,53 @@
+import { expect, test } from 'bun:test';
+import { validateSchema } from './validation.js';
+import { ValidationError } from './errors.js';
+
+const schema = {
+  type: 'object',
+  required: ['name', 'items'],
+  properties: {
+    name: { type: 'string' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          count: { type: 'number' },
+        },
+      },
+    },
+  },
+};
+
+test('valid value', () => {
+  expect(() => validateSchema(schema, { name: 'a', items: [{ count: 1 }] }, 'input')).not.toThrow();
+});
+
+test('no schema', () => {
+  expect(() => validateSchema(undefined, 'anything', 'input')).not.toThrow();
+});
+
+test('invalid value lists the paths', () => {
+  let error: ValidationError | undefined;
+  try {
+    validateSchema(schema, { name: 5, items: [{ count: 1 }, { count: 'two' }] }, 'input');
+  } catch (e) {
+    error = e as ValidationError;
+  }
+
+  expect(error).toBeInstanceOf(ValidationError);
+  expect(error?.paths).toEqual(['name', 'items[1].count']);
+  expect(error?.message).toStartWith('Invalid input: name is not of a type(s) string');
+});
+
+test('problem with the whole value', () => {
+  let error: ValidationError | undefined;
+  try {
+    validateSchema({ type: 'number' }, 'abc', 'output');
+  } catch (e) {
+    error = e as ValidationError;
+  }
+
+  expect(error?.paths).toEqual(['']);
+  expect(error?.message).toEqual('Invalid output: is not of a type(s) number');
+});
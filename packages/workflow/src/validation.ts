@@ -0,0 +1,31 @@
+import { validate, type Schema } from 'jsonschema';
+import { ValidationError } from './errors.js';
+
+function formatPath(path: (string | number)[]) {
+  return path
+    .map((segment, i) => {
+      if (typeof segment === 'number') {
+        return `[${segment}]`;
+      }
+
+      return i === 0 ? segment : `.${segment}`;
+    })
+    .join('');
+}
+
+/** Throw a `ValidationError` if `value` does not match `schema`. Does nothing if there is no schema.
+ *
+ * `description` describes the value being checked, for the error message. */
+export function validateSchema(schema: Schema | undefined, value: unknown, description: string) {
+  if (!schema) {
+    return;
+  }
+
+  const result = validate(value, schema);
+  if (!result.valid) {
+    throw new ValidationError(
+      `Invalid ${description}`,
+      result.errors.map((e) => ({ path: formatPath(e.path), message: e.message }))
+    );
+  }
+}